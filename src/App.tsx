@@ -1,8 +1,135 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { memo, useEffect, useMemo, useRef, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { cn } from "./lib/utils";
+import { cn, downloadFile, parseCodeMeta, uid } from "./lib/utils";
 import { useLocalStorage } from "./lib/useLocalStorage";
+import { useConversationStore } from "./lib/useConversationStore";
+import {
+  decodeTextAttachment,
+  describeAttachmentKind,
+  getAttachmentBase64,
+  getAttachmentKind,
+  getAttachmentMimeType,
+} from "./lib/attachments";
+import { createBackup, importSettings, mergeById, parseBackup, type ImportMode } from "./lib/backup";
+import {
+  conversationToHtml,
+  conversationToMarkdown,
+  printConversation,
+  readThemeVariables,
+} from "./lib/conversationExport";
+import {
+  DEFAULT_THINKING_BUDGET,
+  MODEL_OPTIONS,
+  PROVIDERS,
+  acceptsAttachment,
+  canGenerateImages,
+  getModelLabel,
+  getRequestModelId,
+  resolveGenerationParams,
+  type GenerationParams,
+  type ModelItem,
+  type ProviderId,
+  type ReasoningEffort,
+} from "./lib/providers";
+import {
+  CATALOG_PROVIDERS,
+  fetchOpenRouterCatalog,
+  fetchProviderModels,
+  formatContextLength,
+  formatPrice,
+  labelFromModelName,
+} from "./lib/modelCatalog";
+import type {
+  Attachment,
+  CatalogMetadata,
+  ContextStrategy,
+  ContextSummary,
+  ContextUsage,
+  Conversation,
+  EmbeddingProviderId,
+  McpServerConfig,
+  Message,
+  MessageFeedback,
+  MessageVersion,
+  Project,
+  ProjectDocument,
+  PromptTemplate,
+  Settings,
+  ShortcutAction,
+  SourceCitation,
+  TokenUsage,
+  ToolCallRecord,
+} from "./lib/types";
+import { parseEventJson, readServerSentEvents } from "./lib/sse";
+import {
+  DEFAULT_CONTEXT_STRATEGY,
+  DEFAULT_WINDOW_TURNS,
+  buildSummaryRequest,
+  estimateMessageTokens,
+  estimateTokens,
+  fitContext,
+  getContextLength,
+  getInputBudget,
+  messagesAfterSummary,
+  summarizedTurnEnd,
+  summaryAnchor,
+  summaryBatches,
+  summaryToSystemPrompt,
+  type FittedContext,
+} from "./lib/contextWindow";
+import { buildMessageSearchIndex, searchMessages } from "./lib/messageSearch";
+import {
+  extractTemplateVariables,
+  fillTemplate,
+  getSlashQuery,
+  matchTemplates,
+  templatesForProject,
+} from "./lib/promptTemplates";
+import {
+  COMMAND_PALETTE_SHORTCUT,
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_LABELS,
+  formatShortcut,
+  resolveShortcuts,
+  shortcutFromEvent,
+  shortcutProblem,
+} from "./lib/shortcuts";
+import { useMcpServers, type McpServerState } from "./lib/useMcpServers";
+import { useProjectDocuments, type EmbeddingConfig } from "./lib/useProjectDocuments";
+import {
+  DOCUMENT_SOURCE_PREFIX,
+  EMBEDDING_MODELS,
+  chunkCitation,
+  embedTexts,
+  embeddingModelId,
+  formatRetrievedContext,
+  retrieveChunks,
+} from "./lib/retrieval";
+import {
+  BUILTIN_TOOLS,
+  parseToolArguments,
+  runToolCall,
+  type RequestedToolCall,
+  type ToolCallOutcome,
+  type ToolSpec,
+} from "./lib/tools";
+import {
+  ProviderError,
+  describeErrorKind,
+  errorFromStreamEvent,
+  fetchProvider,
+  isRetryable,
+  toMessageError,
+} from "./lib/providerErrors";
+import {
+  addTokenUsage,
+  computeUsageReport,
+  formatCost,
+  formatTokens,
+  getUsageCost,
+  type UsageRow,
+} from "./lib/usage";
 
 interface ISpeechRecognition extends EventTarget {
   continuous: boolean;
@@ -22,115 +149,6 @@ declare global {
   }
 }
 
-const PROVIDERS = {
-  openrouter: {
-    id: "openrouter",
-    name: "OpenRouter",
-    type: "openai" as const,
-    baseUrl: "https://openrouter.ai/api/v1",
-  },
-  openai: {
-    id: "openai",
-    name: "OpenAI",
-    type: "openai" as const,
-    baseUrl: "https://api.openai.com/v1",
-  },
-  anthropic: {
-    id: "anthropic",
-    name: "Anthropic",
-    type: "anthropic" as const,
-    baseUrl: "https://api.anthropic.com/v1",
-  },
-  google: {
-    id: "google",
-    name: "Google",
-    type: "google" as const,
-    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
-  },
-  mistral: {
-    id: "mistral",
-    name: "Mistral",
-    type: "openai" as const,
-    baseUrl: "https://api.mistral.ai/v1",
-  },
-  deepseek: {
-    id: "deepseek",
-    name: "DeepSeek",
-    type: "openai" as const,
-    baseUrl: "https://api.deepseek.com/v1",
-  },
-} as const;
-
-type ProviderId = keyof typeof PROVIDERS;
-
-type ModelItem = {
-  id: string;
-  label: string;
-  providerId: ProviderId;
-  description?: string;
-  supportsImages?: boolean;
-};
-
-const MODEL_OPTIONS: ModelItem[] = [
-  { id: "openrouter/anthropic/claude-opus-4.5", label: "Claude Opus 4.5", providerId: "openrouter" },
-  { id: "openrouter/anthropic/claude-sonnet-4.5", label: "Claude Sonnet 4.5", providerId: "openrouter" },
-  { id: "openrouter/openai/gpt-5.2-chat", label: "GPT-5.2 Chat", providerId: "openrouter" },
-  { id: "openrouter/deepseek/deepseek-r1-0528:free", label: "DeepSeek R1 0528 (Free)", providerId: "openrouter" },
-  { id: "openrouter/google/gemini-3-flash-preview", label: "Gemini 3 Flash (Preview)", providerId: "openrouter" },
-  { id: "openrouter/google/gemini-3-pro-preview", label: "Gemini 3 Pro (Preview)", providerId: "openrouter" },
-  { id: "openrouter/google/gemini-2.5-flash-image", label: "Gemini 2.5 Flash Image", providerId: "openrouter", supportsImages: true },
-  { id: "openrouter/google/gemini-3-pro-image-preview", label: "Gemini 3 Pro Image", providerId: "openrouter", supportsImages: true },
-  { id: "openrouter/google/nano-banana-pro", label: "Nano Banana Pro", providerId: "openrouter", supportsImages: true },
-  { id: "openrouter/openai/gpt-5-image", label: "GPT-5 Image", providerId: "openrouter", supportsImages: true },
-];
-
-type Attachment = {
-  name: string;
-  type: string;
-  dataUrl: string;
-};
-
-type SourceCitation = {
-  url: string;
-  title?: string;
-  content?: string;
-};
-
-type Message = {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  createdAt: number;
-  modelId?: string;
-  providerId?: ProviderId;
-  isStreaming?: boolean;
-  images?: string[];
-  attachments?: Attachment[];
-  sources?: SourceCitation[];
-};
-
-type Conversation = {
-  id: string;
-  title: string;
-  messages: Message[];
-  updatedAt: number;
-  projectId?: string | null;
-};
-
-type Settings = {
-  keys: Record<ProviderId, string>;
-  systemPrompt: string;
-  colorMode: "dark" | "light";
-  theme: "basic" | "matrix" | "shadcn";
-  enabledModels: string[];
-  customModels?: ModelItem[];
-};
-
-type Project = {
-  id: string;
-  name: string;
-};
-
 const defaultSettings: Settings = {
   keys: {
     openrouter: "",
@@ -146,6 +164,15 @@ const defaultSettings: Settings = {
   enabledModels: MODEL_OPTIONS.map((model) => model.id),
 };
 
+const CUSTOM_MODEL_PLACEHOLDERS: Record<ProviderId, string> = {
+  openrouter: "e.g. google/gemini-2.5-pro or openai/gpt-5",
+  openai: "e.g. gpt-4.1 or o4-mini",
+  anthropic: "e.g. claude-sonnet-4-5",
+  google: "e.g. gemini-2.5-pro",
+  mistral: "e.g. mistral-large-latest",
+  deepseek: "e.g. deepseek-chat",
+};
+
 const STORAGE_KEYS = {
   settings: "apeiron.settings.v1",
   conversations: "apeiron.conversations.v1",
@@ -153,14 +180,6 @@ const STORAGE_KEYS = {
   projects: "apeiron.projects.v1",
 };
 
-function uid() {
-  return Math.random().toString(36).slice(2, 10);
-}
-
-function getModelLabel(modelId: string, models: ModelItem[] = MODEL_OPTIONS) {
-  return models.find((model) => model.id === modelId)?.label ?? modelId;
-}
-
 function extractSources(annotations: unknown[]): SourceCitation[] {
   if (!Array.isArray(annotations)) return [];
   return annotations.flatMap((annotation) => {
@@ -193,27 +212,390 @@ function mergeSources(existing: SourceCitation[] | undefined, incoming: SourceCi
   return Array.from(map.values());
 }
 
+function snapshotVersion(message: Message): MessageVersion {
+  return {
+    content: message.content,
+    createdAt: message.createdAt,
+    reasoning: message.reasoning,
+    images: message.images,
+    sources: message.sources,
+    feedback: message.feedback,
+    usage: message.usage,
+    error: message.error,
+    toolCalls: message.toolCalls,
+    context: message.context,
+  };
+}
+
+// The top-level fields of a message always mirror its active version, so the
+// current state is written back into `versions` before anything else changes.
+function withSavedVersion(message: Message) {
+  const versions = message.versions ? [...message.versions] : [];
+  const activeVersion = message.activeVersion ?? 0;
+  versions[activeVersion] = snapshotVersion(message);
+  return { versions, activeVersion };
+}
+
+function startNewVersion(message: Message): Message {
+  const { versions } = withSavedVersion(message);
+  const createdAt = Date.now();
+  return {
+    ...message,
+    content: "",
+    createdAt,
+    reasoning: undefined,
+    images: undefined,
+    sources: undefined,
+    feedback: undefined,
+    usage: undefined,
+    error: undefined,
+    toolCalls: undefined,
+    context: undefined,
+    isStreaming: true,
+    versions: [...versions, { content: "", createdAt }],
+    activeVersion: versions.length,
+  };
+}
+
+// Retrying a failed reply reuses its version rather than adding another one.
+function restartVersion(message: Message): Message {
+  return {
+    ...message,
+    content: "",
+    createdAt: Date.now(),
+    reasoning: undefined,
+    images: undefined,
+    sources: undefined,
+    feedback: undefined,
+    usage: undefined,
+    error: undefined,
+    toolCalls: undefined,
+    context: undefined,
+    isStreaming: true,
+  };
+}
+
+function switchVersion(message: Message, index: number): Message {
+  const { versions } = withSavedVersion(message);
+  const target = versions[index];
+  if (!target) return message;
+  return {
+    ...message,
+    content: target.content,
+    createdAt: target.createdAt,
+    reasoning: target.reasoning,
+    images: target.images,
+    sources: target.sources,
+    feedback: target.feedback,
+    usage: target.usage,
+    error: target.error,
+    toolCalls: target.toolCalls,
+    context: target.context,
+    versions,
+    activeVersion: index,
+  };
+}
+
+type PendingStreamUpdate = {
+  conversationId: string;
+  messageId: string;
+  apply: (message: Message) => Message;
+};
+
+const ROOT_BRANCH = "root";
+
+// Messages form a tree: a user message points at the previous user turn and
+// every assistant reply points at the user message it answers. Conversations
+// saved before branching existed have no parent ids, so those are inferred
+// from array order.
+function normalizeMessageTree(messages: Message[]) {
+  let lastUserId: string | null = null;
+  return messages.map((message) => {
+    const parentId = message.parentId !== undefined ? message.parentId : lastUserId;
+    if (message.role === "user") lastUserId = message.id;
+    return parentId === message.parentId ? message : { ...message, parentId };
+  });
+}
+
+function getUserSiblings(messages: Message[], parentId: string | null) {
+  return messages.filter((message) => message.role === "user" && message.parentId === parentId);
+}
+
+function getActivePath(conversation: Conversation) {
+  const children = new Map<string, { users: Message[]; responses: Message[] }>();
+  normalizeMessageTree(conversation.messages).forEach((message) => {
+    const key = message.parentId ?? ROOT_BRANCH;
+    const entry = children.get(key) ?? { users: [], responses: [] };
+    (message.role === "user" ? entry.users : entry.responses).push(message);
+    children.set(key, entry);
+  });
+
+  const path: Message[] = [];
+  let parentKey = ROOT_BRANCH;
+  while (true) {
+    const siblings = children.get(parentKey)?.users ?? [];
+    if (siblings.length === 0) break;
+    const selectedId = conversation.activeBranches?.[parentKey];
+    const userMessage = siblings.find((message) => message.id === selectedId) ?? siblings[siblings.length - 1];
+    path.push(userMessage, ...(children.get(userMessage.id)?.responses ?? []));
+    parentKey = userMessage.id;
+  }
+  return path;
+}
+
+/** The branch choices that put `messageId` on a conversation's active path. */
+function branchesToMessage(conversation: Conversation, messageId: string) {
+  const messages = normalizeMessageTree(conversation.messages);
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branches: Record<string, string> = {};
+  let current = byId.get(messageId);
+  // An answer hangs off its prompt; the path is chosen through user messages
+  if (current?.role === "assistant") current = current.parentId ? byId.get(current.parentId) : undefined;
+  while (current) {
+    branches[current.parentId ?? ROOT_BRANCH] = current.id;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return branches;
+}
+
+function groupTurns(path: Message[]) {
+  const turns: Array<{ user: Message; responses: Message[] }> = [];
+  path.forEach((message) => {
+    if (message.role === "user") {
+      turns.push({ user: message, responses: [] });
+    } else {
+      turns[turns.length - 1]?.responses.push(message);
+    }
+  });
+  return turns;
+}
+
+type ModelStats = {
+  model: ModelItem;
+  comparisons: number;
+  wins: number;
+  thumbsUp: number;
+  thumbsDown: number;
+};
+
+// Wins come from compare turns where one answer was picked to continue with;
+// thumbs are counted across every stored version of an answer.
+function computeModelStats(conversations: Conversation[], models: ModelItem[]) {
+  const stats = new Map<string, ModelStats>(
+    models.map((model) => [model.id, { model, comparisons: 0, wins: 0, thumbsUp: 0, thumbsDown: 0 }])
+  );
+
+  conversations.forEach((conversation) => {
+    const messages = normalizeMessageTree(conversation.messages);
+    messages.forEach((message) => {
+      if (message.role === "user") {
+        const responses = messages.filter((m) => m.role === "assistant" && m.parentId === message.id);
+        if (responses.length < 2 || !message.selectedResponseId) return;
+        responses.forEach((response) => {
+          const entry = response.modelId ? stats.get(response.modelId) : undefined;
+          if (!entry) return;
+          entry.comparisons += 1;
+          if (response.id === message.selectedResponseId) entry.wins += 1;
+        });
+        return;
+      }
+      const entry = message.modelId ? stats.get(message.modelId) : undefined;
+      if (!entry) return;
+      const versions = message.versions ? withSavedVersion(message).versions : [snapshotVersion(message)];
+      versions.forEach((version) => {
+        if (version.feedback?.rating === "up") entry.thumbsUp += 1;
+        if (version.feedback?.rating === "down") entry.thumbsDown += 1;
+      });
+    });
+  });
+
+  const winRate = (entry: ModelStats) => (entry.comparisons ? entry.wins / entry.comparisons : -1);
+  const thumbsRatio = (entry: ModelStats) => {
+    const total = entry.thumbsUp + entry.thumbsDown;
+    return total ? entry.thumbsUp / total : -1;
+  };
+  return Array.from(stats.values()).sort(
+    (a, b) => winRate(b) - winRate(a) || thumbsRatio(b) - thumbsRatio(a) || a.model.label.localeCompare(b.model.label)
+  );
+}
+
+// The latest prompt's attachments must all be readable by the model; older
+// ones the model can't read (sent earlier to another model) are left out.
+function filterAttachmentsForModel(messages: Message[], model: ModelItem) {
+  const lastUserIndex = messages.map((message) => message.role).lastIndexOf("user");
+  return messages.map((message, index) => {
+    if (!message.attachments?.length) return message;
+    const unreadable = message.attachments.filter((att) => !acceptsAttachment(model, getAttachmentKind(att)));
+    if (unreadable.length === 0) return message;
+    if (index === lastUserIndex) {
+      const kinds = Array.from(new Set(unreadable.map((att) => describeAttachmentKind(getAttachmentKind(att)))));
+      throw new Error(
+        `${model.label} can't read ${kinds.join(" or ")} attachments (${unreadable.map((att) => att.name).join(", ")}). Choose a model that accepts them or remove the attachment.`
+      );
+    }
+    return { ...message, attachments: message.attachments.filter((att) => !unreadable.includes(att)) };
+  });
+}
+
+// A turn whose user message has a `selectedResponseId` shares that answer with
+// every model; other turns only carry each model's own replies.
 function buildContext(messages: Message[], modelId: string, providerId: ProviderId) {
+  const selectedResponses = new Map<string, string>();
+  messages.forEach((message) => {
+    if (message.role === "user" && message.selectedResponseId) {
+      selectedResponses.set(message.id, message.selectedResponseId);
+    }
+  });
   return messages.filter((message) => {
     if (message.role === "user") return true;
+    if (message.error) return false;
+    const selectedId = message.parentId ? selectedResponses.get(message.parentId) : undefined;
+    if (selectedId) return message.id === selectedId;
     if (message.role === "assistant" && message.modelId === modelId && message.providerId === providerId) return true;
     return false;
   });
 }
 
+function unsupportedAttachmentError(providerName: string, attachment: Attachment, supported: string) {
+  const kind = describeAttachmentKind(getAttachmentKind(attachment));
+  return new Error(
+    `${providerName} can't read the ${kind} "${attachment.name}" (${attachment.type || "unknown type"}). It accepts ${supported}.`
+  );
+}
+
+const ANTHROPIC_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+function toAnthropicContent(msg: Message) {
+  if (!msg.attachments?.length) return msg.content;
+  const blocks: Array<Record<string, unknown>> = [];
+  for (const att of msg.attachments) {
+    const kind = getAttachmentKind(att);
+    const mediaType = getAttachmentMimeType(att);
+    if (kind === "image" && ANTHROPIC_IMAGE_TYPES.includes(mediaType)) {
+      blocks.push({ type: "image", source: { type: "base64", media_type: mediaType, data: getAttachmentBase64(att) } });
+    } else if (kind === "pdf") {
+      blocks.push({
+        type: "document",
+        source: { type: "base64", media_type: "application/pdf", data: getAttachmentBase64(att) },
+        title: att.name,
+      });
+    } else if (kind === "text") {
+      blocks.push({
+        type: "document",
+        source: { type: "text", media_type: "text/plain", data: decodeTextAttachment(att) },
+        title: att.name,
+      });
+    } else {
+      throw unsupportedAttachmentError("Anthropic", att, "JPEG, PNG, GIF and WebP images, PDFs and text files");
+    }
+  }
+  // Anthropic recommends placing documents and images before the question
+  if (msg.content) blocks.push({ type: "text", text: msg.content });
+  return blocks;
+}
+
+const GOOGLE_INLINE_TYPES = /^(image\/(png|jpeg|webp|heic|heif)|application\/pdf|audio\/|video\/)/;
+
+function toGoogleParts(msg: Message) {
+  const parts: Array<Record<string, unknown>> = [];
+  if (msg.content) parts.push({ text: msg.content });
+  for (const att of msg.attachments ?? []) {
+    const kind = getAttachmentKind(att);
+    const mimeType = getAttachmentMimeType(att);
+    if (kind === "text") {
+      parts.push({ text: `[File: ${att.name}]\n${decodeTextAttachment(att)}` });
+    } else if (GOOGLE_INLINE_TYPES.test(mimeType)) {
+      parts.push({ inlineData: { mimeType, data: getAttachmentBase64(att) } });
+    } else {
+      throw unsupportedAttachmentError("Google", att, "PNG, JPEG, WebP and HEIC images, PDFs, audio, video and text files");
+    }
+  }
+  // Gemini rejects a content entry with no parts
+  return parts.length ? parts : [{ text: "" }];
+}
+
+/**
+ * How one request ended. When the model asked for tools, `turn` is its reply
+ * in the provider's own message format, ready to send back with the results.
+ */
+type StreamStep = {
+  toolCalls: RequestedToolCall[];
+  turn?: unknown;
+};
+
+/** Tool results in each provider's message format, to follow the turn that asked for them. */
+function toolResultTurns(providerType: "openai" | "anthropic" | "google", outcomes: ToolCallOutcome[]): unknown[] {
+  if (providerType === "anthropic") {
+    return [
+      {
+        role: "user",
+        content: outcomes.map((outcome) => ({
+          type: "tool_result",
+          tool_use_id: outcome.id,
+          content: outcome.result,
+          is_error: outcome.isError || undefined,
+        })),
+      },
+    ];
+  }
+  if (providerType === "google") {
+    return [
+      {
+        role: "user",
+        parts: outcomes.map((outcome) => ({
+          functionResponse: {
+            id: outcome.id,
+            name: outcome.name,
+            response: outcome.isError ? { error: outcome.result } : { result: outcome.result },
+          },
+        })),
+      },
+    ];
+  }
+  return outcomes.map((outcome) => ({ role: "tool", tool_call_id: outcome.id, content: outcome.result }));
+}
+
+// OpenAI's reasoning models reject `max_tokens`, and only OpenAI and OpenRouter
+// take an effort setting (OpenRouter nests it under `reasoning`).
+function openAIParamFields(providerId: ProviderId, params: GenerationParams) {
+  const fields: Record<string, unknown> = {
+    temperature: params.temperature,
+    top_p: params.topP,
+    [providerId === "openai" ? "max_completion_tokens" : "max_tokens"]: params.maxTokens,
+  };
+  if (params.reasoningEffort && providerId === "openai") fields.reasoning_effort = params.reasoningEffort;
+  if (providerId === "openrouter" && (params.thinking || params.reasoningEffort)) {
+    // OpenRouter takes either a token budget or an effort, not both
+    fields.reasoning =
+      params.thinking && params.thinkingBudget
+        ? { max_tokens: params.thinkingBudget }
+        : params.reasoningEffort
+          ? { effort: params.reasoningEffort }
+          : { enabled: true };
+  }
+  return fields;
+}
+
 async function streamOpenAICompatible(options: {
+  providerId: ProviderId;
   apiKey: string;
   baseUrl: string;
   model: string;
   messages: Message[];
   systemPrompt?: string;
+  params?: GenerationParams;
   onToken: (token: string) => void;
+  onReasoning?: (token: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
   onImage?: (url: string) => void;
   onAnnotations?: (annotations: unknown[]) => void;
   supportsImages?: boolean;
   signal?: AbortSignal;
   plugins?: Array<{ id: string; max_results?: number; search_prompt?: string; engine?: "exa" | "native" }>;
-}) {
+  tools?: ToolSpec[];
+  continuation?: unknown[];
+}): Promise<StreamStep> {
+  const providerName = PROVIDERS[options.providerId].name;
   const payloadMessages = [
     ...(options.systemPrompt
       ? [{ role: "system", content: options.systemPrompt }]
@@ -221,146 +603,250 @@ async function streamOpenAICompatible(options: {
     ...options.messages.map((msg) => {
       const hasAttachments = msg.attachments && msg.attachments.length > 0;
       if (!hasAttachments) return { role: msg.role, content: msg.content };
-      const parts: Array<{ type: string; text?: string; image_url?: { url: string } }> = [];
+      const parts: Array<{
+        type: string;
+        text?: string;
+        image_url?: { url: string };
+        file?: { filename: string; file_data: string };
+      }> = [];
       if (msg.content) parts.push({ type: "text", text: msg.content });
       for (const att of msg.attachments!) {
-        if (att.type.startsWith("image/")) {
+        const kind = getAttachmentKind(att);
+        if (kind === "image") {
           parts.push({ type: "image_url", image_url: { url: att.dataUrl } });
+        } else if (kind === "text") {
+          parts.push({ type: "text", text: `[File: ${att.name}]\n${decodeTextAttachment(att)}` });
+        } else if (kind === "pdf") {
+          parts.push({ type: "file", file: { filename: att.name, file_data: att.dataUrl } });
         } else {
-          parts.push({ type: "text", text: `[File: ${att.name}]\n${atob(att.dataUrl.split(",")[1] ?? "")}` });
+          throw unsupportedAttachmentError(providerName, att, "images, PDFs and text files");
         }
       }
       return { role: msg.role, content: parts };
     }),
+    ...(options.continuation ?? []),
   ];
 
   const body: Record<string, unknown> = {
     model: options.model,
     messages: payloadMessages,
     stream: true,
+    ...openAIParamFields(options.providerId, options.params ?? {}),
   };
+  // Mistral sends usage on the last chunk unasked and rejects stream_options
+  if (options.providerId !== "mistral") {
+    body.stream_options = { include_usage: true };
+  }
+  if (options.providerId === "openrouter") {
+    body.usage = { include: true };
+  }
   if (options.supportsImages) {
     body.modalities = ["text", "image"];
   }
   if (options.plugins && options.plugins.length) {
     body.plugins = options.plugins;
   }
+  if (options.tools?.length) {
+    body.tools = options.tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+  }
 
-  const response = await fetch(`${options.baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${options.apiKey}`,
+  const response = await fetchProvider(
+    `${options.baseUrl}/chat/completions`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${options.apiKey}`,
+      },
+      signal: options.signal,
+      body: JSON.stringify(body),
     },
-    signal: options.signal,
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok || !response.body) {
-    const errorText = await response.text();
-    throw new Error(errorText || "Request failed");
-  }
+    providerName
+  );
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder("utf-8");
-  let buffer = "";
+  let text = "";
+  // Tool calls stream in pieces, keyed by their index in the reply
+  const pendingCalls = new Map<number, { id: string; name: string; arguments: string }>();
 
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-
-    const parts = buffer.split("\n\n");
-    buffer = parts.pop() ?? "";
-
-    for (const part of parts) {
-      const line = part.trim();
-      if (!line.startsWith("data:")) continue;
-      const data = line.replace(/^data:\s*/, "").trim();
-      if (data === "[DONE]") return;
-      try {
-        const json = JSON.parse(data);
-        const delta = json.choices?.[0]?.delta?.content;
-        if (delta) options.onToken(delta);
-        const annotations =
-          json.choices?.[0]?.delta?.annotations ??
-          json.choices?.[0]?.message?.annotations ??
-          json.choices?.[0]?.message?.content?.[0]?.annotations;
-        if (annotations && options.onAnnotations) {
-          options.onAnnotations(annotations);
-        }
-        const images = json.choices?.[0]?.delta?.images ?? json.choices?.[0]?.message?.images;
-        if (images && options.onImage) {
-          for (const img of images) {
-            const url = img?.image_url?.url ?? img?.url;
-            if (url) options.onImage(url);
-          }
-        }
-      } catch {
-        // Ignore parse errors
+  for await (const event of readServerSentEvents(response.body)) {
+    if (event.data === "[DONE]") break;
+    const json = parseEventJson(event, providerName);
+    // Failures after the response has started (OpenRouter) arrive as an error chunk
+    if (json.error) throw errorFromStreamEvent(json.error);
+    const delta = json.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      options.onToken(delta);
+    }
+    const toolCallDeltas: Array<{ index?: number; id?: string; function?: { name?: string; arguments?: string } }> =
+      json.choices?.[0]?.delta?.tool_calls ?? [];
+    toolCallDeltas.forEach((toolCall, position) => {
+      const index = toolCall.index ?? position;
+      const pending = pendingCalls.get(index) ?? { id: "", name: "", arguments: "" };
+      pending.id = toolCall.id || pending.id;
+      pending.name += toolCall.function?.name ?? "";
+      pending.arguments += toolCall.function?.arguments ?? "";
+      pendingCalls.set(index, pending);
+    });
+    // DeepSeek names the field `reasoning_content`, OpenRouter `reasoning`
+    const reasoning = json.choices?.[0]?.delta?.reasoning_content ?? json.choices?.[0]?.delta?.reasoning;
+    if (typeof reasoning === "string" && reasoning) options.onReasoning?.(reasoning);
+    if (json.usage) {
+      options.onUsage?.({
+        promptTokens: json.usage.prompt_tokens ?? 0,
+        completionTokens: json.usage.completion_tokens ?? 0,
+        cost: typeof json.usage.cost === "number" ? json.usage.cost : undefined,
+      });
+    }
+    const annotations =
+      json.choices?.[0]?.delta?.annotations ??
+      json.choices?.[0]?.message?.annotations ??
+      json.choices?.[0]?.message?.content?.[0]?.annotations;
+    if (annotations && options.onAnnotations) {
+      options.onAnnotations(annotations);
+    }
+    const images = json.choices?.[0]?.delta?.images ?? json.choices?.[0]?.message?.images;
+    if (images && options.onImage) {
+      for (const img of images) {
+        const url = img?.image_url?.url ?? img?.url;
+        if (url) options.onImage(url);
       }
     }
   }
+
+  const toolCalls = Array.from(pendingCalls.values()).map((call) => ({
+    id: call.id || uid(),
+    name: call.name,
+    arguments: parseToolArguments(call.arguments),
+  }));
+  if (toolCalls.length === 0) return { toolCalls };
+  return {
+    toolCalls,
+    turn: {
+      role: "assistant",
+      content: text || null,
+      tool_calls: toolCalls.map((call) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    },
+  };
 }
 
+// Anthropic requires max_tokens on every request
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+
 async function streamAnthropic(options: {
   apiKey: string;
   model: string;
   messages: Message[];
   systemPrompt?: string;
+  params?: GenerationParams;
   onToken: (token: string) => void;
+  onReasoning?: (token: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
   signal?: AbortSignal;
-}) {
-  const response = await fetch(`${PROVIDERS.anthropic.baseUrl}/messages`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": options.apiKey,
-      "anthropic-version": "2023-06-01",
+  tools?: ToolSpec[];
+  continuation?: unknown[];
+}): Promise<StreamStep> {
+  const thinkingBudget = options.params?.thinking
+    ? options.params.thinkingBudget ?? DEFAULT_THINKING_BUDGET
+    : undefined;
+  const response = await fetchProvider(
+    `${PROVIDERS.anthropic.baseUrl}/messages`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": options.apiKey,
+        "anthropic-version": "2023-06-01",
+        "anthropic-dangerous-direct-browser-access": "true",
+      },
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model,
+        // The thinking budget counts towards max_tokens, so it is added on top
+        // to keep "max tokens" meaning the length of the answer.
+        max_tokens: (options.params?.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS) + (thinkingBudget ?? 0),
+        // Extended thinking does not allow changing temperature or top_p
+        temperature: thinkingBudget ? undefined : options.params?.temperature,
+        top_p: thinkingBudget ? undefined : options.params?.topP,
+        thinking: thinkingBudget ? { type: "enabled", budget_tokens: thinkingBudget } : undefined,
+        system: options.systemPrompt || undefined,
+        messages: [
+          ...options.messages.map((msg) => ({ role: msg.role, content: toAnthropicContent(msg) })),
+          ...(options.continuation ?? []),
+        ],
+        tools: options.tools?.length
+          ? options.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+          : undefined,
+        stream: true,
+      }),
     },
-    signal: options.signal,
-    body: JSON.stringify({
-      model: options.model,
-      max_tokens: 1024,
-      system: options.systemPrompt || undefined,
-      messages: options.messages.map((msg) => ({ role: msg.role, content: msg.content })),
-      stream: true,
-    }),
-  });
-
-  if (!response.ok || !response.body) {
-    const errorText = await response.text();
-    throw new Error(errorText || "Request failed");
-  }
+    PROVIDERS.anthropic.name
+  );
 
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder("utf-8");
-  let buffer = "";
+  // Input tokens arrive with message_start, the running output count with message_delta
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0 };
+  // The reply's content blocks are rebuilt so a tool-use turn can be sent back
+  // as-is; thinking blocks must keep their signatures for that.
+  const blocks: Array<Record<string, unknown>> = [];
+  const toolInputs = new Map<number, string>();
 
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-
-    const events = buffer.split("\n\n");
-    buffer = events.pop() ?? "";
-
-    for (const event of events) {
-      const lines = event.split("\n");
-      const dataLine = lines.find((line) => line.startsWith("data:"));
-      if (!dataLine) continue;
-      const data = dataLine.replace(/^data:\s*/, "").trim();
-      try {
-        const json = JSON.parse(data);
-        if (json.type === "content_block_delta") {
-          const text = json.delta?.text;
-          if (text) options.onToken(text);
-        }
-      } catch {
-        // Ignore parse errors
+  for await (const event of readServerSentEvents(response.body)) {
+    const json = parseEventJson(event, PROVIDERS.anthropic.name);
+    if (event.event === "error" || json.type === "error") throw errorFromStreamEvent(json.error ?? {});
+    if (json.type === "message_start" && json.message?.usage) {
+      const input = json.message.usage;
+      usage = {
+        ...usage,
+        promptTokens:
+          (input.input_tokens ?? 0) + (input.cache_creation_input_tokens ?? 0) + (input.cache_read_input_tokens ?? 0),
+      };
+      options.onUsage?.(usage);
+    }
+    if (json.type === "message_delta" && json.usage) {
+      usage = { ...usage, completionTokens: json.usage.output_tokens ?? usage.completionTokens };
+      options.onUsage?.(usage);
+    }
+    if (json.type === "content_block_start" && json.content_block) {
+      blocks[json.index] = { ...json.content_block };
+    }
+    if (json.type === "content_block_delta") {
+      const block = blocks[json.index] ?? {};
+      if (json.delta?.type === "thinking_delta") {
+        if (json.delta.thinking) options.onReasoning?.(json.delta.thinking);
+        block.thinking = `${block.thinking ?? ""}${json.delta.thinking ?? ""}`;
+      } else if (json.delta?.type === "signature_delta") {
+        block.signature = json.delta.signature;
+      } else if (json.delta?.type === "input_json_delta") {
+        toolInputs.set(json.index, (toolInputs.get(json.index) ?? "") + (json.delta.partial_json ?? ""));
+      } else {
+        const text = json.delta?.text;
+        if (text) options.onToken(text);
+        block.text = `${block.text ?? ""}${text ?? ""}`;
       }
     }
   }
+
+  const toolCalls: RequestedToolCall[] = [];
+  blocks.forEach((block, index) => {
+    if (block?.type !== "tool_use") return;
+    block.input = parseToolArguments(toolInputs.get(index) ?? "");
+    toolCalls.push({ id: String(block.id), name: String(block.name), arguments: block.input as Record<string, unknown> });
+  });
+  if (toolCalls.length === 0) return { toolCalls };
+  return {
+    toolCalls,
+    turn: {
+      role: "assistant",
+      content: blocks.filter((block) => block && !(block.type === "text" && !block.text)),
+    },
+  };
 }
 
 async function streamGoogle(options: {
@@ -368,19 +854,27 @@ async function streamGoogle(options: {
   model: string;
   messages: Message[];
   systemPrompt?: string;
+  params?: GenerationParams;
   onToken: (token: string) => void;
+  onReasoning?: (token: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
   signal?: AbortSignal;
-}) {
+  tools?: ToolSpec[];
+  continuation?: unknown[];
+}): Promise<StreamStep> {
   const systemInstruction = options.systemPrompt
     ? { parts: [{ text: options.systemPrompt }] }
     : undefined;
 
-  const contents = options.messages.map((msg) => ({
-    role: msg.role === "assistant" ? "model" : "user",
-    parts: [{ text: msg.content }],
-  }));
+  const contents = [
+    ...options.messages.map((msg) => ({
+      role: msg.role === "assistant" ? "model" : "user",
+      parts: toGoogleParts(msg),
+    })),
+    ...(options.continuation ?? []),
+  ];
 
-  const response = await fetch(
+  const response = await fetchProvider(
     `${PROVIDERS.google.baseUrl}/models/${options.model}:streamGenerateContent?alt=sse&key=${options.apiKey}`,
     {
       method: "POST",
@@ -391,40 +885,120 @@ async function streamGoogle(options: {
       body: JSON.stringify({
         contents,
         systemInstruction,
+        tools: options.tools?.length
+          ? [
+              {
+                functionDeclarations: options.tools.map((tool) => ({
+                  name: tool.name,
+                  description: tool.description,
+                  parametersJsonSchema: tool.parameters,
+                })),
+              },
+            ]
+          : undefined,
+        generationConfig: {
+          temperature: options.params?.temperature,
+          topP: options.params?.topP,
+          maxOutputTokens: options.params?.maxTokens,
+          thinkingConfig: options.params?.thinking
+            ? { includeThoughts: true, thinkingBudget: options.params.thinkingBudget ?? DEFAULT_THINKING_BUDGET }
+            : undefined,
+        },
       }),
-    }
+    },
+    PROVIDERS.google.name
   );
 
-  if (!response.ok || !response.body) {
-    const errorText = await response.text();
-    throw new Error(errorText || "Request failed");
-  }
-
-  const reader = response.body.getReader();
-  const decoder = new TextDecoder("utf-8");
-  let buffer = "";
+  // Parts are kept (minus thought summaries) so a function-call turn can be
+  // sent back with its thought signatures intact.
+  const modelParts: Array<Record<string, unknown>> = [];
+  const toolCalls: RequestedToolCall[] = [];
 
-  while (true) {
-    const { value, done } = await reader.read();
-    if (done) break;
-    buffer += decoder.decode(value, { stream: true });
-
-    const parts = buffer.split("\n\n");
-    buffer = parts.pop() ?? "";
-
-    for (const part of parts) {
-      const line = part.trim();
-      if (!line.startsWith("data:")) continue;
-      const data = line.replace(/^data:\s*/, "").trim();
-      try {
-        const json = JSON.parse(data);
-        const text = json.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (text) options.onToken(text);
-      } catch {
-        // Ignore parse errors
+  for await (const event of readServerSentEvents(response.body)) {
+    const json = parseEventJson(event, PROVIDERS.google.name);
+    if (json.error) throw errorFromStreamEvent(json.error);
+    const contentParts: Array<{
+      text?: string;
+      thought?: boolean;
+      functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+    }> = json.candidates?.[0]?.content?.parts ?? [];
+    for (const contentPart of contentParts) {
+      if (!contentPart.thought) modelParts.push(contentPart);
+      if (contentPart.functionCall) {
+        toolCalls.push({
+          id: contentPart.functionCall.id || uid(),
+          name: contentPart.functionCall.name,
+          arguments: contentPart.functionCall.args ?? {},
+        });
       }
+      if (!contentPart.text) continue;
+      if (contentPart.thought) options.onReasoning?.(contentPart.text);
+      else options.onToken(contentPart.text);
+    }
+    // Every chunk repeats the running totals; thinking tokens are billed as output
+    const usage = json.usageMetadata;
+    if (usage) {
+      options.onUsage?.({
+        promptTokens: usage.promptTokenCount ?? 0,
+        completionTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+      });
     }
   }
+
+  if (toolCalls.length === 0) return { toolCalls };
+  return { toolCalls, turn: { role: "model", parts: modelParts } };
+}
+
+const MAX_REQUEST_RETRIES = 3;
+// Requests per answer, so a model that keeps calling tools still stops
+const MAX_TOOL_STEPS = 8;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+// Project document excerpts added to each request
+const RETRIEVED_CHUNK_LIMIT = 6;
+const CATALOG_REFRESH_MS = 24 * 60 * 60 * 1000;
+// Stable fallback so the MCP hook does not reconnect on every render
+const NO_MCP_SERVERS: McpServerConfig[] = [];
+
+/** Settles when the user answers a pending tool call; stopping the stream counts as a refusal. */
+function waitForApproval(
+  approvals: Map<string, (approved: boolean) => void>,
+  callId: string,
+  signal: AbortSignal
+) {
+  return new Promise<boolean>((resolve) => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+    const settle = (approved: boolean) => {
+      approvals.delete(callId);
+      signal.removeEventListener("abort", onAbort);
+      resolve(approved);
+    };
+    const onAbort = () => settle(false);
+    approvals.set(callId, settle);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Resolves true after `ms`, or false as soon as the request is stopped. */
+function waitForRetry(ms: number, signal: AbortSignal) {
+  return new Promise<boolean>((resolve) => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve(true);
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
 }
 
 async function streamProviderResponse(options: {
@@ -433,32 +1007,43 @@ async function streamProviderResponse(options: {
   model: string;
   messages: Message[];
   systemPrompt?: string;
+  params?: GenerationParams;
   onToken: (token: string) => void;
+  onReasoning?: (token: string) => void;
+  onUsage?: (usage: TokenUsage) => void;
   onImage?: (url: string) => void;
   onAnnotations?: (annotations: unknown[]) => void;
   supportsImages?: boolean;
   signal?: AbortSignal;
   plugins?: Array<{ id: string; max_results?: number; search_prompt?: string; engine?: "exa" | "native" }>;
-}) {
+  tools?: ToolSpec[];
+  continuation?: unknown[];
+}): Promise<StreamStep> {
   if (!options.apiKey) {
-    throw new Error("Missing API key for provider.");
+    throw new ProviderError({ kind: "auth", message: "Missing API key for provider." });
   }
 
   const provider = PROVIDERS[options.providerId];
 
   if (provider.type === "openai") {
     return streamOpenAICompatible({
+      providerId: options.providerId,
       apiKey: options.apiKey,
       baseUrl: provider.baseUrl,
       model: options.model,
       messages: options.messages,
       systemPrompt: options.systemPrompt,
+      params: options.params,
       onToken: options.onToken,
+      onReasoning: options.onReasoning,
+      onUsage: options.onUsage,
       onImage: options.onImage,
       onAnnotations: options.onAnnotations,
       supportsImages: options.supportsImages,
       signal: options.signal,
       plugins: options.plugins,
+      tools: options.tools,
+      continuation: options.continuation,
     });
   }
 
@@ -468,48 +1053,109 @@ async function streamProviderResponse(options: {
       model: options.model,
       messages: options.messages,
       systemPrompt: options.systemPrompt,
+      params: options.params,
       onToken: options.onToken,
+      onReasoning: options.onReasoning,
+      onUsage: options.onUsage,
       signal: options.signal,
+      tools: options.tools,
+      continuation: options.continuation,
     });
   }
 
-  if (provider.type === "google") {
-    return streamGoogle({
-      apiKey: options.apiKey,
-      model: options.model,
-      messages: options.messages,
-      systemPrompt: options.systemPrompt,
-      onToken: options.onToken,
-      signal: options.signal,
-    });
-  }
+  return streamGoogle({
+    apiKey: options.apiKey,
+    model: options.model,
+    messages: options.messages,
+    systemPrompt: options.systemPrompt,
+    params: options.params,
+    onToken: options.onToken,
+    onReasoning: options.onReasoning,
+    onUsage: options.onUsage,
+    signal: options.signal,
+    tools: options.tools,
+    continuation: options.continuation,
+  });
 }
 
-function parseCodeMeta(className?: string, meta?: string) {
-  let language = "";
-  let filename = "";
-  if (className?.startsWith("language-")) {
-    const info = className.replace("language-", "");
-    if (info.includes(":")) {
-      const [lang, file] = info.split(":");
-      language = lang || "";
-      filename = file || "";
-    } else {
-      if (info.includes(".")) {
-        filename = info;
-        language = info.split(".").pop() || "";
-      } else {
-        language = info;
-      }
-    }
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // ignore
   }
-  if (!filename && meta) {
-    const match = meta.match(/file=([^\s]+)/);
-    if (match) filename = match[1];
-  }
-  return { language, filename };
 }
 
+function downloadCode(filename: string, content: string) {
+  downloadFile(filename, content, "text/plain;charset=utf-8");
+}
+
+// Memoized so finished answers skip markdown parsing while other messages stream.
+const MessageMarkdown = memo(function MessageMarkdown({ content }: { content: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      className="answer-markdown prose max-w-none dark:prose-invert prose-p:leading-relaxed prose-p:my-4 prose-ol:pl-5 prose-ul:pl-5 prose-li:my-2 prose-li:marker:text-[var(--text-secondary)] prose-hr:my-6 prose-strong:text-[var(--text-primary)] prose-code:text-[var(--text-primary)] prose-code:bg-[var(--accent-soft)] prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded"
+      components={{
+        p({ children, ...props }) {
+          return <div {...props}>{children}</div>;
+        },
+        code({ className, children, node, ...props }) {
+          const content = String(children).replace(/\n$/, "");
+          if (!className) {
+            return (
+              <code className={className} {...props}>
+                {children}
+              </code>
+            );
+          }
+          const meta = (node as { data?: { meta?: string } })?.data?.meta;
+          const { language, filename } = parseCodeMeta(className, meta);
+          return (
+            <div className="my-5 rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-2)] overflow-hidden">
+              <div className="flex items-center justify-between px-3 py-2 text-xs text-[var(--text-secondary)] border-b border-[var(--border-subtle)] bg-[var(--accent-soft)]">
+                <div className="flex items-center gap-2">
+                  <span className="uppercase tracking-[0.2em] text-[10px]">{language || "code"}</span>
+                  {filename ? (
+                    <span className="px-2 py-0.5 rounded-full bg-[var(--hover-bg)] text-[10px] text-[var(--text-muted)]">
+                      {filename}
+                    </span>
+                  ) : null}
+                </div>
+                <div className="flex items-center gap-2">
+                  {filename ? (
+                    <button
+                      className="px-2 py-1 rounded-lg bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-[10px]"
+                      onClick={() => downloadCode(filename, content)}
+                      type="button"
+                    >
+                      Download
+                    </button>
+                  ) : null}
+                  <button
+                    className="px-2 py-1 rounded-lg bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-[10px]"
+                    onClick={() => copyToClipboard(content)}
+                    type="button"
+                  >
+                    Copy
+                  </button>
+                </div>
+              </div>
+              <pre className="p-4 overflow-x-auto text-sm text-[var(--text-primary)]">
+                <code className={className} {...props}>
+                  {content}
+                </code>
+              </pre>
+            </div>
+          );
+        },
+      }}
+    >
+      {content}
+    </ReactMarkdown>
+  );
+});
+
 function ModelPicker({
   selectedModel,
   setSelectedModel,
@@ -626,32 +1272,2241 @@ function ModelPicker({
   );
 }
 
+const TOOL_STATUS: Record<ToolCallRecord["status"], { icon: string; label: string }> = {
+  pending: { icon: "front_hand", label: "waiting for approval" },
+  running: { icon: "progress_activity", label: "running..." },
+  done: { icon: "build", label: "done" },
+  error: { icon: "error", label: "failed" },
+  denied: { icon: "block", label: "declined" },
+};
+
+function ToolCallCard({
+  call,
+  onRespond,
+}: {
+  call: ToolCallRecord;
+  onRespond?: (callId: string, approved: boolean) => void;
+}) {
+  const [open, setOpen] = useState(call.status === "pending");
+  const status = TOOL_STATUS[call.status];
+  return (
+    <div
+      className={cn(
+        "rounded-xl border bg-[var(--surface-2)] text-xs",
+        call.status === "pending" ? "border-[var(--text-secondary)]" : "border-[var(--border-subtle)]"
+      )}
+    >
+      <button
+        className="w-full flex items-center gap-2 px-3 py-2 text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+      >
+        <span
+          className={cn(
+            "material-symbols-outlined text-[16px]",
+            call.status === "running" && "animate-spin",
+            (call.status === "error" || call.status === "denied") && "text-red-400"
+          )}
+        >
+          {status.icon}
+        </span>
+        <span className="font-mono text-[var(--text-primary)]">{call.name}</span>
+        <span className="truncate">{status.label}</span>
+        <span className="material-symbols-outlined text-[16px] ml-auto">{open ? "expand_less" : "expand_more"}</span>
+      </button>
+      {open ? (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <div className="text-[10px] uppercase tracking-[0.15em] text-[var(--text-secondary)]">Arguments</div>
+            <pre className="mt-1 whitespace-pre-wrap break-words font-mono text-[var(--text-muted)]">
+              {JSON.stringify(call.arguments, null, 2)}
+            </pre>
+          </div>
+          {call.result !== undefined ? (
+            <div>
+              <div className="text-[10px] uppercase tracking-[0.15em] text-[var(--text-secondary)]">Result</div>
+              <pre className="mt-1 max-h-60 overflow-y-auto whitespace-pre-wrap break-words font-mono text-[var(--text-muted)]">
+                {call.result}
+              </pre>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+      {call.status === "pending" && onRespond ? (
+        <div className="flex items-center gap-2 px-3 pb-3">
+          <span className="text-[var(--text-muted)]">The model wants to run this tool.</span>
+          <button
+            className="ml-auto px-3 py-1 rounded-lg border border-[var(--border-subtle)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors"
+            onClick={() => onRespond(call.id, false)}
+          >
+            Deny
+          </button>
+          <button
+            className="px-3 py-1 rounded-lg bg-[var(--text-primary)] text-[var(--surface-1)] hover:opacity-90 transition-opacity"
+            onClick={() => onRespond(call.id, true)}
+          >
+            Allow
+          </button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/** Renders an answer with its tool calls placed where they happened in the text. */
+function AnswerWithToolCalls({
+  content,
+  toolCalls,
+  onRespond,
+}: {
+  content: string;
+  toolCalls: ToolCallRecord[];
+  onRespond?: (callId: string, approved: boolean) => void;
+}) {
+  const offsets = Array.from(new Set(toolCalls.map((call) => call.offset))).sort((a, b) => a - b);
+  const segments: Array<{ text: string; calls: ToolCallRecord[] }> = [];
+  let start = 0;
+  offsets.forEach((offset) => {
+    segments.push({ text: content.slice(start, offset), calls: toolCalls.filter((call) => call.offset === offset) });
+    start = offset;
+  });
+  segments.push({ text: content.slice(start), calls: [] });
+  return (
+    <div className="space-y-3">
+      {segments.map((segment, index) => (
+        <div key={index} className="space-y-3">
+          {segment.text.trim() ? <MessageMarkdown content={segment.text} /> : null}
+          {segment.calls.map((call) => (
+            <ToolCallCard key={call.id} call={call} onRespond={onRespond} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ThinkingPanel({ reasoning, active }: { reasoning: string; active: boolean }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-2)]">
+      <button
+        className="w-full flex items-center gap-2 px-4 py-2 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+      >
+        <span className="material-symbols-outlined text-[16px]">psychology</span>
+        <span className={cn(active && "animate-pulse")}>{active ? "Thinking..." : "Thinking"}</span>
+        <span className="material-symbols-outlined text-[16px] ml-auto">{open ? "expand_less" : "expand_more"}</span>
+      </button>
+      {open ? (
+        <div className="px-4 pb-3 max-h-80 overflow-y-auto whitespace-pre-wrap text-[13px] leading-relaxed text-[var(--text-secondary)]">
+          {reasoning}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+type ConversationExportFormat = "markdown" | "html" | "print";
+
+function ConversationExportMenu({ onExport }: { onExport: (format: ConversationExportFormat) => void }) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    function onClick(event: MouseEvent) {
+      if (!ref.current) return;
+      if (!ref.current.contains(event.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onClick);
+    return () => document.removeEventListener("mousedown", onClick);
+  }, []);
+
+  const options: Array<{ id: ConversationExportFormat; label: string; icon: string }> = [
+    { id: "markdown", label: "Markdown", icon: "markdown" },
+    { id: "html", label: "HTML page", icon: "html" },
+    { id: "print", label: "Print / PDF", icon: "print" },
+  ];
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        className="flex items-center gap-2 rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] px-3 py-2 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors"
+        onClick={() => setOpen((prev) => !prev)}
+        aria-label="Export conversation"
+      >
+        <span className="material-symbols-outlined text-[18px]">ios_share</span>
+        <span>Export</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 top-11 w-44 rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-1)] shadow-2xl p-1 text-sm">
+          {options.map((option) => (
+            <button
+              key={option.id}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-xs text-[var(--text-muted)] hover:bg-[var(--hover-bg)] transition-colors"
+              onClick={() => {
+                setOpen(false);
+                onExport(option.id);
+              }}
+            >
+              <span className="material-symbols-outlined text-[16px] text-[var(--text-icon)]">{option.icon}</span>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const REASONING_EFFORTS: ReasoningEffort[] = ["low", "medium", "high"];
+
+function parseParamNumber(text: string) {
+  if (text.trim() === "") return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/** Inputs for one parameter set. Empty fields inherit, and `inherited` shows what they fall back to. */
+function GenerationParamsFields({
+  value,
+  inherited,
+  onChange,
+}: {
+  value: GenerationParams;
+  inherited: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+}) {
+  const inputClass =
+    "w-full bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-lg px-2 py-1.5 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:ring-1 focus:ring-[var(--border-subtle)]";
+  const numberFields: Array<{ key: "temperature" | "topP" | "maxTokens"; label: string; min: number; max?: number; step: number }> = [
+    { key: "temperature", label: "Temperature", min: 0, max: 2, step: 0.1 },
+    { key: "topP", label: "Top P", min: 0, max: 1, step: 0.05 },
+    { key: "maxTokens", label: "Max tokens", min: 1, step: 256 },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {numberFields.map((field) => (
+        <label key={field.key} className="space-y-1">
+          <span className="text-[10px] uppercase tracking-[0.15em] text-[var(--text-secondary)]">{field.label}</span>
+          <input
+            type="number"
+            className={inputClass}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            placeholder={inherited[field.key] !== undefined ? String(inherited[field.key]) : "Default"}
+            value={value[field.key] ?? ""}
+            onChange={(event) => onChange({ ...value, [field.key]: parseParamNumber(event.target.value) })}
+          />
+        </label>
+      ))}
+      <label className="space-y-1">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-[var(--text-secondary)]">Reasoning effort</span>
+        <select
+          className={inputClass}
+          value={value.reasoningEffort ?? ""}
+          onChange={(event) =>
+            onChange({ ...value, reasoningEffort: (event.target.value || undefined) as ReasoningEffort | undefined })
+          }
+          title="Sent to OpenAI and OpenRouter reasoning models"
+        >
+          <option value="">{inherited.reasoningEffort ? `Inherit (${inherited.reasoningEffort})` : "Default"}</option>
+          {REASONING_EFFORTS.map((effort) => (
+            <option key={effort} value={effort}>
+              {effort}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-[var(--text-secondary)]">Thinking</span>
+        <select
+          className={inputClass}
+          value={value.thinking === undefined ? "" : value.thinking ? "on" : "off"}
+          onChange={(event) =>
+            onChange({ ...value, thinking: event.target.value === "" ? undefined : event.target.value === "on" })
+          }
+          title="Anthropic extended thinking, Gemini thoughts and OpenRouter reasoning"
+        >
+          <option value="">
+            {inherited.thinking === undefined ? "Default" : `Inherit (${inherited.thinking ? "on" : "off"})`}
+          </option>
+          <option value="on">on</option>
+          <option value="off">off</option>
+        </select>
+      </label>
+      <label className="space-y-1">
+        <span className="text-[10px] uppercase tracking-[0.15em] text-[var(--text-secondary)]">Thinking budget</span>
+        <input
+          type="number"
+          className={inputClass}
+          min={1024}
+          step={1024}
+          placeholder={String(inherited.thinkingBudget ?? DEFAULT_THINKING_BUDGET)}
+          value={value.thinkingBudget ?? ""}
+          onChange={(event) => onChange({ ...value, thinkingBudget: parseParamNumber(event.target.value) })}
+        />
+      </label>
+    </div>
+  );
+}
+
+function ConversationParamsMenu({
+  value,
+  inherited,
+  onChange,
+  disabled,
+}: {
+  value: GenerationParams;
+  inherited: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  disabled: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    function onClick(event: MouseEvent) {
+      if (!ref.current) return;
+      if (!ref.current.contains(event.target as Node)) setOpen(false);
+    }
+    document.addEventListener("mousedown", onClick);
+    return () => document.removeEventListener("mousedown", onClick);
+  }, []);
+
+  const active = Object.values(value).some((param) => param !== undefined);
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        type="button"
+        className={cn(
+          "size-8 flex items-center justify-center rounded-full border transition-colors",
+          active
+            ? "bg-white text-black border-white"
+            : "bg-[var(--accent-soft)] text-[var(--text-muted)] border-[var(--border-subtle)] hover:bg-[var(--hover-bg)]",
+          disabled && "opacity-40 cursor-not-allowed"
+        )}
+        onClick={() => {
+          if (!disabled) setOpen((prev) => !prev);
+        }}
+        title={disabled ? "Start a conversation to set its parameters" : "Conversation parameters"}
+        aria-label="Conversation parameters"
+      >
+        <span className="material-symbols-outlined text-[18px] leading-none">tune</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 bottom-12 w-72 rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-1)] shadow-2xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-[var(--text-primary)]">This conversation</p>
+            {active ? (
+              <button
+                className="text-[11px] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+                onClick={() => onChange({})}
+              >
+                Reset
+              </button>
+            ) : null}
+          </div>
+          <GenerationParamsFields value={value} inherited={inherited} onChange={onChange} />
+          <p className="text-[10px] text-[var(--text-secondary)]">
+            Applies to every model in this conversation. Empty fields use the model settings.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function UsageBadge({ usage, model }: { usage: TokenUsage; model?: ModelItem }) {
+  const cost = getUsageCost(usage, model);
+  return (
+    <span
+      className="text-[10px] text-[var(--text-secondary)] tabular-nums"
+      title={`${usage.promptTokens} prompt tokens, ${usage.completionTokens} completion tokens`}
+    >
+      {formatTokens(usage.promptTokens)} in · {formatTokens(usage.completionTokens)} out
+      {cost !== undefined ? ` · ${formatCost(cost)}` : ""}
+    </span>
+  );
+}
+
+/** The pinned summary that stands in for older turns; clearing it makes the next reply summarize afresh. */
+function ContextSummaryCard({
+  summary,
+  coveredMessages,
+  onClear,
+}: {
+  summary: ContextSummary;
+  coveredMessages: number;
+  onClear: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <div className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-2)] text-xs">
+      <div className="flex items-center gap-2 px-4 py-2 text-[var(--text-secondary)]">
+        <span className="material-symbols-outlined text-[16px]">push_pin</span>
+        <button
+          className="flex-1 text-left hover:text-[var(--text-primary)] transition-colors"
+          onClick={() => setOpen((prev) => !prev)}
+          aria-expanded={open}
+        >
+          The first {coveredMessages} messages are sent to models as a summary
+        </button>
+        <button className="hover:text-[var(--text-primary)] transition-colors" onClick={onClear}>
+          Clear
+        </button>
+        <span className="material-symbols-outlined text-[16px]">{open ? "expand_less" : "expand_more"}</span>
+      </div>
+      {open ? (
+        <div className="px-4 pb-3 text-[var(--text-muted)] whitespace-pre-wrap leading-relaxed">{summary.content}</div>
+      ) : null}
+    </div>
+  );
+}
+
+const CONTEXT_STRATEGIES: Array<{ id: ContextStrategy; label: string; description: string }> = [
+  {
+    id: "truncate",
+    label: "Drop the oldest turns",
+    description: "Sends as much of the conversation as fits, leaving out the oldest turns first.",
+  },
+  {
+    id: "sliding_window",
+    label: "Sliding window",
+    description: "Sends only the most recent turns, and fewer if even those do not fit.",
+  },
+  {
+    id: "summarize",
+    label: "Summarize earlier turns",
+    description:
+      "Asks the answering model to summarize turns that no longer fit. The summary is pinned to the conversation and sent with every reply.",
+  },
+];
+
+/** How full the context window was for this request, with what had to give way. */
+function ContextBadge({ context }: { context: ContextUsage }) {
+  const percent = Math.min(100, Math.round((context.estimatedTokens / context.contextLength) * 100));
+  const trimmed = context.droppedMessages
+    ? `${context.droppedMessages} earlier message${context.droppedMessages === 1 ? "" : "s"} ${
+        context.summarized ? "summarized" : "left out"
+      }`
+    : null;
+  return (
+    <span
+      className="flex items-center gap-1 text-[10px] text-[var(--text-secondary)] tabular-nums"
+      title={`About ${formatTokens(context.estimatedTokens)} of ${formatTokens(context.contextLength)} context tokens${
+        trimmed ? `. ${trimmed}.` : ""
+      }`}
+    >
+      <span className="relative h-1 w-8 overflow-hidden rounded-full bg-[var(--hover-bg)]">
+        <span
+          className={cn("absolute inset-y-0 left-0 rounded-full", percent >= 90 ? "bg-red-400" : "bg-[var(--text-secondary)]")}
+          style={{ width: `${percent}%` }}
+        />
+      </span>
+      {percent}% context
+      {trimmed ? <span className="material-symbols-outlined text-[12px]">{context.summarized ? "compress" : "content_cut"}</span> : null}
+    </span>
+  );
+}
+
+function ModelMeta({ model }: { model: ModelItem }) {
+  const parts = [
+    model.contextLength ? `${formatContextLength(model.contextLength)} context` : null,
+    model.pricing ? `${formatPrice(model.pricing.prompt)} in / ${formatPrice(model.pricing.completion)} out per 1M` : null,
+    model.inputModalities ? `in: ${model.inputModalities.join(", ")}` : null,
+    model.outputModalities ? `out: ${model.outputModalities.join(", ")}` : null,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+  return <div className="text-[10px] text-[var(--text-secondary)] truncate">{parts.join(" · ")}</div>;
+}
+
+function OpenRouterBrowser({
+  existingIds,
+  onAdd,
+  onCatalogLoaded,
+}: {
+  existingIds: Set<string>;
+  onAdd: (model: ModelItem) => void;
+  onCatalogLoaded: (catalog: ModelItem[]) => void;
+}) {
+  const [catalog, setCatalog] = useState<ModelItem[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [modalityFilter, setModalityFilter] = useState<"all" | "image-in" | "image-out">("all");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchOpenRouterCatalog()
+      .then((models) => {
+        if (cancelled) return;
+        setCatalog(models);
+        onCatalogLoaded(models);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unknown error");
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Fetched once each time the browser opens
+  }, []);
+
+  const results = useMemo(() => {
+    if (!catalog) return [];
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return catalog
+      .filter((model) => {
+        if (modalityFilter === "image-in" && !model.inputModalities?.includes("image")) return false;
+        if (modalityFilter === "image-out" && !model.outputModalities?.includes("image")) return false;
+        const haystack = `${model.label} ${model.id}`.toLowerCase();
+        return terms.every((term) => haystack.includes(term));
+      })
+      .slice(0, 100);
+  }, [catalog, query, modalityFilter]);
+
+  return (
+    <div className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] p-3 space-y-3">
+      <div className="flex gap-2">
+        <input
+          className="flex-1 bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+          placeholder="Search OpenRouter models"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          autoFocus
+        />
+        <select
+          className="bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+          value={modalityFilter}
+          onChange={(event) => setModalityFilter(event.target.value as typeof modalityFilter)}
+          aria-label="Filter by modality"
+        >
+          <option value="all">All models</option>
+          <option value="image-in">Reads images</option>
+          <option value="image-out">Generates images</option>
+        </select>
+      </div>
+      {error ? (
+        <p className="text-xs text-red-400">Could not load the OpenRouter catalog: {error}</p>
+      ) : !catalog ? (
+        <p className="text-xs text-[var(--text-secondary)]">Loading catalog...</p>
+      ) : (
+        <div className="max-h-[240px] overflow-y-auto space-y-1">
+          {results.length === 0 ? (
+            <p className="text-xs text-[var(--text-secondary)] px-1">No models match.</p>
+          ) : (
+            results.map((model) => {
+              const added = existingIds.has(model.id);
+              return (
+                <div key={model.id} className="flex items-center gap-3 rounded-xl px-2 py-1.5 hover:bg-[var(--hover-bg)]">
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm text-[var(--text-primary)] truncate">{model.label}</div>
+                    <div className="text-[10px] text-[var(--text-secondary)] truncate">{model.id}</div>
+                    <ModelMeta model={model} />
+                  </div>
+                  <button
+                    className="shrink-0 px-2.5 py-1 rounded-lg bg-white text-black text-xs font-semibold hover:bg-slate-200 disabled:opacity-40"
+                    onClick={() => onAdd(model)}
+                    disabled={added}
+                  >
+                    {added ? "Added" : "Add"}
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BranchSwitcher({
+  siblings,
+  activeId,
+  disabled,
+  onSelect,
+}: {
+  siblings: Message[];
+  activeId: string;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+}) {
+  if (siblings.length < 2) return null;
+  const index = siblings.findIndex((sibling) => sibling.id === activeId);
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+        onClick={() => onSelect(siblings[index - 1].id)}
+        disabled={disabled || index <= 0}
+        aria-label="Previous branch"
+      >
+        <span className="material-symbols-outlined text-[16px]">chevron_left</span>
+      </button>
+      <span>
+        {index + 1} / {siblings.length}
+      </span>
+      <button
+        className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+        onClick={() => onSelect(siblings[index + 1].id)}
+        disabled={disabled || index >= siblings.length - 1}
+        aria-label="Next branch"
+      >
+        <span className="material-symbols-outlined text-[16px]">chevron_right</span>
+      </button>
+    </div>
+  );
+}
+
+type ChatMessageActions = {
+  regenerate: (messageId: string, retry?: boolean) => void;
+  openApiKeys: () => void;
+  startEditing: (message: Message) => void;
+  setEditingText: (text: string) => void;
+  cancelEditing: () => void;
+  submitEdit: (messageId: string) => void;
+  selectBranch: (parentId: string | null, messageId: string) => void;
+  selectVersion: (messageId: string, index: number) => void;
+  selectResponse: (userMessageId: string, responseId: string | null) => void;
+  rate: (messageId: string, rating: MessageFeedback["rating"] | null) => void;
+  setFeedbackNote: (messageId: string, note: string) => void;
+  respondToToolCall: (callId: string, approved: boolean) => void;
+};
+
+type ChatMessageProps = {
+  message: Message;
+  /** Shown as one of several answers side by side. */
+  inColumn: boolean;
+  highlighted: boolean;
+  isSelectedResponse: boolean;
+  /** The user messages this one can be switched with; empty for answers. */
+  siblings: Message[];
+  /** The draft while this message is being edited, otherwise null. */
+  editingText: string | null;
+  conversationStreaming: boolean;
+  models: ModelItem[];
+  actions: ChatMessageActions;
+};
+
+// Streaming replaces the conversation every frame, but only the streaming
+// message changes identity. Siblings are a fresh list each render, so they
+// are compared item by item.
+function sameChatMessageProps(prev: ChatMessageProps, next: ChatMessageProps) {
+  return (Object.keys(next) as Array<keyof ChatMessageProps>).every((key) =>
+    key === "siblings"
+      ? prev.siblings.length === next.siblings.length && prev.siblings.every((sibling, index) => sibling === next.siblings[index])
+      : prev[key] === next[key]
+  );
+}
+
+const ChatMessage = memo(function ChatMessage({
+  message,
+  inColumn,
+  highlighted,
+  isSelectedResponse,
+  siblings,
+  editingText,
+  conversationStreaming,
+  models,
+  actions,
+}: ChatMessageProps) {
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={cn(
+        "flex scroll-mt-24 rounded-2xl transition-shadow duration-700",
+        message.role === "user" ? "flex-col items-end" : "flex gap-6",
+        highlighted && "ring-2 ring-yellow-300/60 ring-offset-4 ring-offset-[var(--bg-main)]"
+      )}
+    >
+      {message.role === "assistant" && !inColumn ? (
+        <div className="size-8 rounded-full border border-[var(--border-subtle)] bg-white/5 flex items-center justify-center shrink-0 mt-1">
+          <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 48 48" xmlns="http://www.w3.org/2000/svg">
+            <path d="M4 4H17.3334V17.3334H30.6666V30.6666H44V44H4V4Z" fill="currentColor"></path>
+          </svg>
+        </div>
+      ) : null}
+      <div
+        className={cn(
+          message.role === "assistant" ? "flex-1 min-w-0 space-y-4" : "max-w-[85%]",
+          message.role === "assistant" && !inColumn && "max-w-[90%]"
+        )}
+      >
+        <div
+          className={cn(
+            message.role === "user"
+              ? "bg-[var(--surface-2)] px-5 py-3 rounded-2xl text-[var(--text-primary)] text-[15px] leading-relaxed border border-[var(--border-subtle)]"
+              : "text-[var(--text-primary)] text-[16px] leading-relaxed space-y-6"
+          )}
+        >
+          {message.role === "assistant" ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+                <span className="uppercase tracking-[0.2em] text-[10px]">{message.providerId}</span>
+                {message.modelId ? (
+                  <span className="px-2 py-0.5 rounded-full bg-[var(--accent-soft)] border border-[var(--border-subtle)]">
+                    {getModelLabel(message.modelId, models)}
+                  </span>
+                ) : null}
+                {message.isStreaming ? (
+                  <span className="flex items-center gap-1.5 text-[10px] text-[var(--text-secondary)]">
+                    {inColumn ? <span className="size-1.5 rounded-full bg-current animate-pulse" /> : null}
+                    Streaming...
+                  </span>
+                ) : null}
+                <span className="ml-auto flex items-center gap-2">
+                  {message.context ? <ContextBadge context={message.context} /> : null}
+                  {message.usage && !message.isStreaming ? (
+                    <UsageBadge usage={message.usage} model={models.find((model) => model.id === message.modelId)} />
+                  ) : null}
+                </span>
+              </div>
+              {message.reasoning ? (
+                <ThinkingPanel reasoning={message.reasoning} active={!!message.isStreaming && !message.content} />
+              ) : null}
+              {message.toolCalls?.length ? (
+                <AnswerWithToolCalls
+                  content={message.content}
+                  toolCalls={message.toolCalls}
+                  onRespond={actions.respondToToolCall}
+                />
+              ) : (
+                <MessageMarkdown content={message.content || ""} />
+              )}
+              {message.error ? (
+                <div className="rounded-2xl border border-red-500/30 bg-red-500/5 px-4 py-3 space-y-2">
+                  <div className="flex items-center gap-2 text-sm text-red-400">
+                    <span className="material-symbols-outlined text-[18px]">error</span>
+                    <span className="font-medium">{describeErrorKind(message.error.kind)}</span>
+                    {message.error.status ? (
+                      <span className="text-[10px] text-[var(--text-secondary)]">HTTP {message.error.status}</span>
+                    ) : null}
+                  </div>
+                  <p className="text-[13px] text-[var(--text-muted)] break-words">{message.error.message}</p>
+                  <div className="flex items-center gap-2">
+                    <button
+                      className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--accent-soft)] text-xs text-[var(--text-muted)] hover:bg-[var(--hover-bg)] transition-colors disabled:opacity-40"
+                      onClick={() => actions.regenerate(message.id, true)}
+                      disabled={conversationStreaming}
+                    >
+                      <span className="material-symbols-outlined text-[14px]">refresh</span>
+                      Retry
+                    </button>
+                    {message.error.kind === "auth" ? (
+                      <button
+                        className="px-2.5 py-1 rounded-lg text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+                        onClick={actions.openApiKeys}
+                      >
+                        Check API keys
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+              ) : null}
+              {message.sources && message.sources.length > 0 ? (
+                <div className="mt-4 rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-2)] px-4 py-3">
+                  <div className="text-[10px] uppercase tracking-[0.2em] text-[var(--text-secondary)]">
+                    Sources
+                  </div>
+                  <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2">
+                    {message.sources.map((source) => {
+                      if (source.url.startsWith(DOCUMENT_SOURCE_PREFIX)) {
+                        return (
+                          <div
+                            key={source.url}
+                            className="rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] px-3 py-2 text-left"
+                            title={source.content}
+                          >
+                            <div className="text-[11px] text-[var(--text-secondary)]">Project document</div>
+                            <div className="text-sm text-[var(--text-primary)] break-words">{source.title}</div>
+                          </div>
+                        );
+                      }
+                      let host = "";
+                      try {
+                        host = new URL(source.url).hostname.replace(/^www\./, "");
+                      } catch {
+                        host = source.url;
+                      }
+                      return (
+                        <a
+                          key={source.url}
+                          href={source.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] px-3 py-2 text-left transition-colors hover:bg-[var(--hover-bg)]"
+                        >
+                          <div className="text-[11px] text-[var(--text-secondary)]">{host}</div>
+                          <div className="text-sm text-[var(--text-primary)] break-words">
+                            {source.title || source.url}
+                          </div>
+                        </a>
+                      );
+                    })}
+                  </div>
+                </div>
+              ) : null}
+              {message.images && message.images.length > 0 ? (
+                <div className="flex flex-wrap gap-3 mt-4">
+                  {message.images.map((url, index) => (
+                    <a
+                      key={index}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="block"
+                    >
+                      <img
+                        src={url}
+                        alt={`Generated image ${index + 1}`}
+                        className="rounded-2xl border border-[var(--border-subtle)] max-w-full max-h-[512px] object-contain"
+                      />
+                    </a>
+                  ))}
+                </div>
+              ) : null}
+            </div>
+          ) : (
+            <>
+              {message.attachments && message.attachments.length > 0 ? (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {message.attachments.map((att, index) =>
+                    att.type.startsWith("image/") ? (
+                      <img key={index} src={att.dataUrl} alt={att.name} className="h-40 max-w-full object-contain rounded-xl" />
+                    ) : (
+                      <div key={index} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[var(--accent-soft)] border border-[var(--border-subtle)]">
+                        <span className="material-symbols-outlined text-[16px] text-[var(--text-icon)]">description</span>
+                        <span className="text-xs text-[var(--text-muted)]">{att.name}</span>
+                      </div>
+                    )
+                  )}
+                </div>
+              ) : null}
+              {editingText !== null ? (
+                <div className="space-y-2">
+                  <textarea
+                    className="w-full min-w-[280px] bg-transparent border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-[15px] text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)] resize-y"
+                    value={editingText}
+                    onChange={(event) => actions.setEditingText(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter" && !event.shiftKey) {
+                        event.preventDefault();
+                        actions.submitEdit(message.id);
+                      }
+                      if (event.key === "Escape") actions.cancelEditing();
+                    }}
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      className="px-3 py-1.5 rounded-lg text-xs text-[var(--text-muted)] hover:bg-[var(--hover-bg)]"
+                      onClick={actions.cancelEditing}
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      className="px-3 py-1.5 rounded-lg bg-white text-black text-xs font-semibold hover:bg-slate-200 disabled:opacity-30"
+                      onClick={() => actions.submitEdit(message.id)}
+                      disabled={conversationStreaming}
+                    >
+                      Save & submit
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                message.content
+              )}
+            </>
+          )}
+        </div>
+        {message.role === "user" && editingText === null ? (
+          <div className="flex items-center justify-end gap-2 mt-2 text-xs text-[var(--text-secondary)]">
+            <BranchSwitcher
+              siblings={siblings}
+              activeId={message.id}
+              disabled={conversationStreaming}
+              onSelect={(id) => actions.selectBranch(message.parentId ?? null, id)}
+            />
+            <button
+              className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+              onClick={() => actions.startEditing(message)}
+              disabled={conversationStreaming}
+              title="Edit message"
+            >
+              <span className="material-symbols-outlined text-[16px]">edit</span>
+            </button>
+          </div>
+        ) : null}
+        {message.role === "assistant" ? (
+          <div className="flex items-center gap-4 pt-4 border-t border-[var(--border-subtle)]">
+            <button
+              className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors"
+              onClick={() => copyToClipboard(message.content)}
+            >
+              <span className="material-symbols-outlined text-[18px]">content_copy</span>
+            </button>
+            <button
+              className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+              onClick={() => actions.regenerate(message.id)}
+              disabled={message.isStreaming}
+              title="Regenerate response"
+            >
+              <span className="material-symbols-outlined text-[18px]">refresh</span>
+            </button>
+            {message.versions && message.versions.length > 1 ? (
+              <div className="flex items-center gap-1 text-xs text-[var(--text-secondary)]">
+                <button
+                  className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+                  onClick={() => actions.selectVersion(message.id, (message.activeVersion ?? 0) - 1)}
+                  disabled={message.isStreaming || (message.activeVersion ?? 0) === 0}
+                  aria-label="Previous version"
+                >
+                  <span className="material-symbols-outlined text-[18px]">chevron_left</span>
+                </button>
+                <span>
+                  version {(message.activeVersion ?? 0) + 1} of {message.versions.length}
+                </span>
+                <button
+                  className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+                  onClick={() => actions.selectVersion(message.id, (message.activeVersion ?? 0) + 1)}
+                  disabled={message.isStreaming || (message.activeVersion ?? 0) >= message.versions.length - 1}
+                  aria-label="Next version"
+                >
+                  <span className="material-symbols-outlined text-[18px]">chevron_right</span>
+                </button>
+              </div>
+            ) : null}
+            {inColumn && message.parentId ? (
+              <button
+                className={cn(
+                  "flex items-center gap-1 text-xs transition-colors disabled:opacity-30",
+                  isSelectedResponse
+                    ? "text-[var(--text-primary)]"
+                    : "text-[var(--text-icon)] hover:text-[var(--text-primary)]"
+                )}
+                onClick={() => actions.selectResponse(message.parentId!, isSelectedResponse ? null : message.id)}
+                disabled={message.isStreaming}
+                title={isSelectedResponse ? "Stop sharing this answer" : "Continue the conversation from this answer"}
+              >
+                <span className="material-symbols-outlined text-[18px]">
+                  {isSelectedResponse ? "check_circle" : "arrow_forward"}
+                </span>
+                <span>{isSelectedResponse ? "Continuing with this" : "Continue with this"}</span>
+              </button>
+            ) : null}
+            <div className="flex items-center gap-2 ml-auto">
+              {(["up", "down"] as const).map((rating) => (
+                <button
+                  key={rating}
+                  className={cn(
+                    "transition-colors disabled:opacity-30",
+                    message.feedback?.rating === rating
+                      ? "text-[var(--text-primary)]"
+                      : "text-[var(--text-icon)] hover:text-[var(--text-primary)]"
+                  )}
+                  onClick={() => actions.rate(message.id, message.feedback?.rating === rating ? null : rating)}
+                  disabled={message.isStreaming}
+                  aria-pressed={message.feedback?.rating === rating}
+                  aria-label={rating === "up" ? "Good response" : "Bad response"}
+                >
+                  <span className="material-symbols-outlined text-[18px]">{rating === "up" ? "thumb_up" : "thumb_down"}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : null}
+        {message.role === "assistant" && message.feedback ? (
+          <input
+            key={`${message.id}-${message.activeVersion ?? 0}`}
+            className="w-full bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-1.5 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+            placeholder="Add a note about this rating (optional)"
+            defaultValue={message.feedback.note ?? ""}
+            onBlur={(event) => actions.setFeedbackNote(message.id, event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") event.currentTarget.blur();
+            }}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+}, sameChatMessageProps);
+
+function StatsDialog({
+  conversations,
+  projects,
+  models,
+  onClose,
+}: {
+  conversations: Conversation[];
+  projects: Project[];
+  models: ModelItem[];
+  onClose: () => void;
+}) {
+  const [projectFilter, setProjectFilter] = useState<string>("all");
+  const [view, setView] = useState<"leaderboard" | "usage">("leaderboard");
+  const [usageGroup, setUsageGroup] = useState<"model" | "conversation" | "project">("model");
+
+  const scoped = useMemo(
+    () =>
+      projectFilter === "all"
+        ? conversations
+        : conversations.filter((conversation) =>
+            projectFilter === "none" ? !conversation.projectId : conversation.projectId === projectFilter
+          ),
+    [conversations, projectFilter]
+  );
+  const rows = useMemo(() => computeModelStats(scoped, models), [scoped, models]);
+  const usage = useMemo(() => computeUsageReport(scoped, projects, models), [scoped, projects, models]);
+  const usageRows: UsageRow[] =
+    usageGroup === "model" ? usage.byModel : usageGroup === "conversation" ? usage.byConversation : usage.byProject;
+
+  const formatRatio = (value: number, total: number) => (total ? `${Math.round((value / total) * 100)}%` : "—");
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="w-full max-w-3xl bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-3xl p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]">Stats</h2>
+            <p className="text-xs text-[var(--text-secondary)]">
+              {view === "leaderboard"
+                ? "Win rate counts compare turns where you picked an answer to continue with."
+                : "Spend counts every stored answer, including replaced versions."}
+            </p>
+          </div>
+          <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)]" onClick={onClose}>
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 mb-4">
+          <div className="flex rounded-xl border border-[var(--border-subtle)] p-0.5">
+            {(["leaderboard", "usage"] as const).map((option) => (
+              <button
+                key={option}
+                className={cn(
+                  "px-3 py-1 rounded-lg text-xs capitalize transition-colors",
+                  view === option
+                    ? "bg-[var(--active-bg)] text-[var(--text-primary)]"
+                    : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                )}
+                onClick={() => setView(option)}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <label className="text-sm text-[var(--text-muted)]">Scope</label>
+          <select
+            className="bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-1.5 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+            value={projectFilter}
+            onChange={(event) => setProjectFilter(event.target.value)}
+          >
+            <option value="all">All conversations</option>
+            <option value="none">No project</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          {view === "usage" ? (
+            <>
+              <label className="text-sm text-[var(--text-muted)]">Group by</label>
+              <select
+                className="bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-1.5 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+                value={usageGroup}
+                onChange={(event) => setUsageGroup(event.target.value as typeof usageGroup)}
+              >
+                <option value="model">Model</option>
+                <option value="conversation">Conversation</option>
+                <option value="project">Project</option>
+              </select>
+            </>
+          ) : null}
+        </div>
+
+        {view === "usage" ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              {[
+                { label: "Spend", value: formatCost(usage.total.cost) },
+                { label: "Prompt tokens", value: formatTokens(usage.total.promptTokens) },
+                { label: "Completion tokens", value: formatTokens(usage.total.completionTokens) },
+              ].map((item) => (
+                <div key={item.label} className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-4 py-3">
+                  <div className="text-[10px] uppercase tracking-[0.1em] text-[var(--text-secondary)]">{item.label}</div>
+                  <div className="text-lg text-[var(--text-primary)] tabular-nums">{item.value}</div>
+                </div>
+              ))}
+            </div>
+            {usage.total.unpriced > 0 ? (
+              <p className="text-xs text-[var(--text-secondary)]">
+                {usage.total.unpriced} answer{usage.total.unpriced === 1 ? "" : "s"} came from models without a known
+                price and are not included in spend.
+              </p>
+            ) : null}
+            <div className="max-h-[340px] overflow-y-auto rounded-2xl border border-[var(--border-subtle)]">
+              <table className="w-full text-sm">
+                <thead className="bg-[var(--accent-soft)] text-[10px] uppercase tracking-[0.1em] text-[var(--text-secondary)]">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-bold capitalize">{usageGroup}</th>
+                    <th className="px-3 py-2 text-right font-bold">Prompt</th>
+                    <th className="px-3 py-2 text-right font-bold">Completion</th>
+                    <th className="px-3 py-2 text-right font-bold">Spend</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usageRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={4} className="px-3 py-6 text-center text-xs text-[var(--text-secondary)]">
+                        No token usage recorded yet.
+                      </td>
+                    </tr>
+                  ) : null}
+                  {usageRows.map((row) => (
+                    <tr key={row.id} className="border-t border-[var(--border-subtle)] text-[var(--text-muted)] tabular-nums">
+                      <td className="px-3 py-2 text-[var(--text-primary)] truncate max-w-[280px]">{row.label}</td>
+                      <td className="px-3 py-2 text-right">{formatTokens(row.promptTokens)}</td>
+                      <td className="px-3 py-2 text-right">{formatTokens(row.completionTokens)}</td>
+                      <td className="px-3 py-2 text-right">
+                        {formatCost(row.cost)}
+                        {row.unpriced > 0 ? <span title="Includes answers without a known price">*</span> : null}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto rounded-2xl border border-[var(--border-subtle)]">
+            <table className="w-full text-sm">
+              <thead className="bg-[var(--accent-soft)] text-[10px] uppercase tracking-[0.1em] text-[var(--text-secondary)]">
+                <tr>
+                  <th className="px-3 py-2 text-left font-bold">#</th>
+                  <th className="px-3 py-2 text-left font-bold">Model</th>
+                  <th className="px-3 py-2 text-right font-bold">Wins</th>
+                  <th className="px-3 py-2 text-right font-bold">Win rate</th>
+                  <th className="px-3 py-2 text-right font-bold">Up / Down</th>
+                  <th className="px-3 py-2 text-right font-bold">Approval</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={row.model.id} className="border-t border-[var(--border-subtle)] text-[var(--text-muted)]">
+                    <td className="px-3 py-2 text-[var(--text-secondary)]">{index + 1}</td>
+                    <td className="px-3 py-2">
+                      <div className="text-[var(--text-primary)]">{row.model.label}</div>
+                      <div className="text-[10px] text-[var(--text-secondary)]">{PROVIDERS[row.model.providerId].name}</div>
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.wins} / {row.comparisons}
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatRatio(row.wins, row.comparisons)}</td>
+                    <td className="px-3 py-2 text-right">
+                      {row.thumbsUp} / {row.thumbsDown}
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatRatio(row.thumbsUp, row.thumbsUp + row.thumbsDown)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Searches every message body, attachment name and model label, with filters, and opens the chosen message. */
+function MessageSearchDialog({
+  conversations,
+  projects,
+  models,
+  initialQuery,
+  onOpen,
+  onClose,
+}: {
+  conversations: Conversation[];
+  projects: Project[];
+  models: ModelItem[];
+  initialQuery: string;
+  onOpen: (conversationId: string, messageId: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState(initialQuery);
+  const [projectId, setProjectId] = useState("");
+  const [modelId, setModelId] = useState("");
+  const [providerId, setProviderId] = useState("");
+  const [role, setRole] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const index = useMemo(() => buildMessageSearchIndex(conversations, models), [conversations, models]);
+  const usedModelIds = useMemo(
+    () =>
+      Array.from(
+        new Set(conversations.flatMap((conversation) => conversation.messages.flatMap((message) => message.modelId ?? [])))
+      ),
+    [conversations]
+  );
+  const hasFilters = Boolean(projectId || modelId || providerId || role || from || to);
+  const results = useMemo(() => {
+    if (!query.trim() && !hasFilters) return [];
+    return searchMessages(
+      index,
+      query,
+      {
+        projectId: projectId || undefined,
+        modelId: modelId || undefined,
+        providerId: (providerId || undefined) as ProviderId | undefined,
+        role: (role || undefined) as Message["role"] | undefined,
+        // Date inputs are local calendar days; the end day counts in full
+        from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+        to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined,
+      },
+      models
+    );
+  }, [index, query, hasFilters, projectId, modelId, providerId, role, from, to, models]);
+
+  const selectClass =
+    "bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-lg px-2 py-1.5 text-xs text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center pt-[10vh] z-50" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[80vh] flex flex-col bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-3xl shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-[var(--border-subtle)]">
+          <span className="material-symbols-outlined text-[20px] text-[var(--text-icon)]">manage_search</span>
+          <input
+            className="flex-1 bg-transparent border-none text-sm text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] outline-none focus:ring-0 p-0"
+            placeholder="Search messages, file names and models..."
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") onClose();
+              if (event.key === "Enter" && results[0]) onOpen(results[0].conversation.id, results[0].message.id);
+            }}
+            autoFocus
+          />
+          <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)]" onClick={onClose}>
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 border-b border-[var(--border-subtle)]">
+          <select className={selectClass} value={projectId} onChange={(event) => setProjectId(event.target.value)} aria-label="Project">
+            <option value="">All projects</option>
+            <option value="none">No project</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+          <select className={selectClass} value={modelId} onChange={(event) => setModelId(event.target.value)} aria-label="Model">
+            <option value="">All models</option>
+            {usedModelIds.map((id) => (
+              <option key={id} value={id}>
+                {getModelLabel(id, models)}
+              </option>
+            ))}
+          </select>
+          <select className={selectClass} value={providerId} onChange={(event) => setProviderId(event.target.value)} aria-label="Provider">
+            <option value="">All providers</option>
+            {Object.values(PROVIDERS).map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name}
+              </option>
+            ))}
+          </select>
+          <select className={selectClass} value={role} onChange={(event) => setRole(event.target.value)} aria-label="Role">
+            <option value="">Prompts and answers</option>
+            <option value="user">Prompts</option>
+            <option value="assistant">Answers</option>
+          </select>
+          <input type="date" className={selectClass} value={from} onChange={(event) => setFrom(event.target.value)} aria-label="From" />
+          <span className="text-xs text-[var(--text-secondary)]">to</span>
+          <input type="date" className={selectClass} value={to} onChange={(event) => setTo(event.target.value)} aria-label="To" />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-2">
+          {!query.trim() && !hasFilters ? (
+            <p className="px-3 py-6 text-center text-xs text-[var(--text-secondary)]">Type to search every conversation.</p>
+          ) : results.length === 0 ? (
+            <p className="px-3 py-6 text-center text-xs text-[var(--text-secondary)]">No messages match.</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={`${result.conversation.id}-${result.message.id}`}
+                className="w-full text-left px-3 py-2.5 rounded-xl hover:bg-[var(--hover-bg)] transition-colors"
+                onClick={() => onOpen(result.conversation.id, result.message.id)}
+              >
+                <div className="flex items-center gap-2 text-[11px] text-[var(--text-secondary)]">
+                  <span className="material-symbols-outlined text-[14px]">
+                    {result.message.role === "user" ? "person" : "smart_toy"}
+                  </span>
+                  <span className="truncate text-[var(--text-primary)]">{result.conversation.title}</span>
+                  {result.message.modelId ? <span className="truncate">· {getModelLabel(result.message.modelId, models)}</span> : null}
+                  {result.matchedIn !== "content" ? <span>· matched {result.matchedIn === "attachment" ? "file name" : "model"}</span> : null}
+                  <span className="ml-auto shrink-0">{new Date(result.message.createdAt).toLocaleDateString()}</span>
+                </div>
+                <div className="mt-1 text-sm text-[var(--text-muted)] line-clamp-2 break-words">
+                  {result.snippet.map((part, index) =>
+                    part.match ? (
+                      <mark key={index} className="bg-yellow-300/40 text-[var(--text-primary)] rounded-sm">
+                        {part.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{part.text}</span>
+                    )
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Pinned files live with the projects in local storage, which browsers cap at a few megabytes
+const MAX_PROJECT_FILES_CHARS = 2_000_000;
+
+function readFileAsAttachment(file: File) {
+  return new Promise<Attachment>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({ name: file.name, type: file.type, dataUrl: reader.result as string });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Defaults every conversation in a project inherits: prompt, models, parameters and pinned files. */
+function ProjectSettingsDialog({
+  project,
+  models,
+  inheritedParams,
+  documents,
+  documentsStatus,
+  embeddingModel,
+  onChange,
+  onAddDocuments,
+  onRemoveDocument,
+  onReindexDocuments,
+  onClose,
+}: {
+  project: Project;
+  models: ModelItem[];
+  inheritedParams: GenerationParams;
+  documents: ProjectDocument[];
+  documentsStatus: { indexing: boolean; error: string | null };
+  /** `<provider>/<model>` used for new embeddings, or null for keyword search only. */
+  embeddingModel: string | null;
+  onChange: (project: Project) => void;
+  onAddDocuments: (files: File[]) => void;
+  onRemoveDocument: (documentId: string) => void;
+  onReindexDocuments: () => void;
+  onClose: () => void;
+}) {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const staleDocuments = documents.filter((document) => (document.embeddingModel ?? null) !== embeddingModel).length;
+  const files = project.files ?? [];
+  const modelIds = project.modelIds ?? [];
+  const filesSize = files.reduce((total, file) => total + file.dataUrl.length, 0);
+
+  function toggleModel(modelId: string) {
+    const next = modelIds.includes(modelId) ? modelIds.filter((id) => id !== modelId) : [...modelIds, modelId];
+    onChange({ ...project, modelIds: next.length ? next : undefined });
+  }
+
+  async function addFiles(event: React.ChangeEvent<HTMLInputElement>) {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    try {
+      const added = await Promise.all(selected.map(readFileAsAttachment));
+      const size = added.reduce((total, file) => total + file.dataUrl.length, filesSize);
+      if (size > MAX_PROJECT_FILES_CHARS) {
+        setFileError("Pinned files are limited to about 1.5 MB per project.");
+        return;
+      }
+      setFileError(null);
+      onChange({ ...project, files: [...files, ...added] });
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
+      <div className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-3xl p-6 shadow-2xl">
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]">{project.name}</h2>
+            <p className="text-xs text-[var(--text-secondary)]">Every conversation in this project starts from these settings.</p>
+          </div>
+          <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)]" onClick={onClose}>
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="space-y-6">
+          <div>
+            <label className="text-sm text-[var(--text-muted)]" htmlFor="project-system-prompt">
+              System prompt
+            </label>
+            <textarea
+              id="project-system-prompt"
+              className="mt-2 w-full bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)] min-h-[120px]"
+              placeholder="Added after the global system prompt for this project's conversations..."
+              value={project.systemPrompt ?? ""}
+              onChange={(event) => onChange({ ...project, systemPrompt: event.target.value || undefined })}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm text-[var(--text-muted)]">Default models</p>
+            <p className="text-xs text-[var(--text-secondary)]">
+              Pick one model, or several to open the project's conversations in compare mode.
+            </p>
+            <div className="mt-2 grid grid-cols-2 gap-1">
+              {models.map((model) => (
+                <label
+                  key={model.id}
+                  className="flex items-center gap-2 px-2 py-1.5 rounded-lg text-xs text-[var(--text-muted)] hover:bg-[var(--hover-bg)]"
+                >
+                  <input
+                    type="checkbox"
+                    className="size-4 rounded border-white/20 bg-transparent text-white focus:ring-white/20"
+                    checked={modelIds.includes(model.id)}
+                    onChange={() => toggleModel(model.id)}
+                  />
+                  <span className="truncate">{model.label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm text-[var(--text-muted)] mb-2">Generation parameters</p>
+            <GenerationParamsFields
+              value={project.params ?? {}}
+              inherited={inheritedParams}
+              onChange={(params) => onChange({ ...project, params })}
+            />
+            <p className="mt-2 text-[10px] text-[var(--text-secondary)]">
+              Override the model settings; a conversation's own parameters still win.
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-[var(--text-muted)]">Pinned files</p>
+                <p className="text-xs text-[var(--text-secondary)]">Sent as reference with every request in this project.</p>
+              </div>
+              <button
+                className="px-3 py-1.5 rounded-xl bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-xs text-[var(--text-primary)]"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                Add files
+              </button>
+              <input ref={fileInputRef} type="file" multiple className="hidden" onChange={addFiles} />
+            </div>
+            {files.length ? (
+              <div className="mt-2 space-y-1">
+                {files.map((file, index) => (
+                  <div
+                    key={`${file.name}-${index}`}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[var(--accent-soft)] border border-[var(--border-subtle)] text-xs"
+                  >
+                    <span className="material-symbols-outlined text-[16px] text-[var(--text-icon)]">description</span>
+                    <span className="flex-1 truncate text-[var(--text-primary)]">{file.name}</span>
+                    <button
+                      className="text-[var(--text-icon)] hover:text-red-400 transition-colors"
+                      onClick={() => onChange({ ...project, files: files.filter((_, i) => i !== index) })}
+                      aria-label={`Remove ${file.name}`}
+                    >
+                      <span className="material-symbols-outlined text-[16px]">close</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {fileError ? <p className="mt-2 text-xs text-red-400">{fileError}</p> : null}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-[var(--text-muted)]">Documents</p>
+                <p className="text-xs text-[var(--text-secondary)]">
+                  Searched on every message; only the most relevant passages are sent, cited under Sources.
+                  {embeddingModel ? ` Semantic search uses ${embeddingModel}.` : " Keyword search only."}
+                </p>
+              </div>
+              <button
+                className="shrink-0 px-3 py-1.5 rounded-xl bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-xs text-[var(--text-primary)] disabled:opacity-40"
+                onClick={() => documentInputRef.current?.click()}
+                disabled={documentsStatus.indexing}
+              >
+                {documentsStatus.indexing ? "Indexing..." : "Add documents"}
+              </button>
+              <input
+                ref={documentInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                accept=".txt,.md,.csv,.json,.js,.jsx,.ts,.tsx,.py,.html,.css,.xml,.yaml,.yml,text/*"
+                onChange={(event) => {
+                  const selected = Array.from(event.target.files ?? []);
+                  event.target.value = "";
+                  if (selected.length) onAddDocuments(selected);
+                }}
+              />
+            </div>
+            {documents.length ? (
+              <div className="mt-2 space-y-1">
+                {documents.map((document) => (
+                  <div
+                    key={document.id}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[var(--accent-soft)] border border-[var(--border-subtle)] text-xs"
+                  >
+                    <span className="material-symbols-outlined text-[16px] text-[var(--text-icon)]">article</span>
+                    <span className="flex-1 truncate text-[var(--text-primary)]">{document.name}</span>
+                    <span className="text-[var(--text-secondary)] tabular-nums">
+                      {document.chunks.length} passage{document.chunks.length === 1 ? "" : "s"}
+                    </span>
+                    <button
+                      className="text-[var(--text-icon)] hover:text-red-400 transition-colors disabled:opacity-40"
+                      onClick={() => onRemoveDocument(document.id)}
+                      disabled={documentsStatus.indexing}
+                      aria-label={`Remove ${document.name}`}
+                    >
+                      <span className="material-symbols-outlined text-[16px]">close</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+            {staleDocuments > 0 && embeddingModel ? (
+              <div className="mt-2 flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+                <span className="flex-1">
+                  {staleDocuments} document{staleDocuments === 1 ? " is" : "s are"} not embedded with {embeddingModel} and only
+                  match by keyword.
+                </span>
+                <button
+                  className="px-2 py-1 rounded-lg bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-[var(--text-primary)] disabled:opacity-40"
+                  onClick={onReindexDocuments}
+                  disabled={documentsStatus.indexing}
+                >
+                  Re-index
+                </button>
+              </div>
+            ) : null}
+            {documentsStatus.error ? <p className="mt-2 text-xs text-red-400">{documentsStatus.error}</p> : null}
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            className="px-4 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-slate-200"
+            onClick={onClose}
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const MCP_STATUS_LABELS: Record<McpServerState["status"], string> = {
+  connecting: "Connecting...",
+  connected: "Connected",
+  error: "Failed",
+};
+
+/** Lists what a connected server offers, collapsed by default since tool lists get long. */
+function McpCapabilityList({ label, items }: { label: string; items: Array<{ name: string; description?: string }> }) {
+  if (items.length === 0) return null;
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-[var(--text-secondary)] hover:text-[var(--text-primary)]">
+        {items.length} {label}
+      </summary>
+      <ul className="mt-1 space-y-1 pl-4">
+        {items.map((item) => (
+          <li key={item.name}>
+            <span className="font-mono text-[var(--text-primary)]">{item.name}</span>
+            {item.description ? <span className="text-[var(--text-secondary)]"> — {item.description}</span> : null}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function McpSettingsPanel({
+  servers,
+  states,
+  onChange,
+  onReconnect,
+}: {
+  servers: McpServerConfig[];
+  states: Record<string, McpServerState>;
+  onChange: (servers: McpServerConfig[]) => void;
+  onReconnect: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [transport, setTransport] = useState<McpServerConfig["transport"]>("http");
+  const [authorization, setAuthorization] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const inputClass =
+    "bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]";
+
+  function addServer() {
+    const trimmedName = name.trim();
+    const trimmedUrl = url.trim();
+    if (!trimmedName || !trimmedUrl) {
+      setFormError("A server needs a name and a URL.");
+      return;
+    }
+    try {
+      new URL(trimmedUrl);
+    } catch {
+      setFormError("That URL is not valid.");
+      return;
+    }
+    if (servers.some((server) => server.name.toLowerCase() === trimmedName.toLowerCase())) {
+      setFormError("Another server already uses that name.");
+      return;
+    }
+    onChange([
+      ...servers,
+      {
+        id: uid(),
+        name: trimmedName,
+        url: trimmedUrl,
+        transport,
+        headers: authorization.trim() ? { Authorization: authorization.trim() } : undefined,
+        enabled: true,
+      },
+    ]);
+    setName("");
+    setUrl("");
+    setAuthorization("");
+    setFormError(null);
+  }
+
+  const updateServer = (id: string, patch: Partial<McpServerConfig>) =>
+    onChange(servers.map((server) => (server.id === id ? { ...server, ...patch } : server)));
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-[var(--text-secondary)]">
+        Model Context Protocol servers add tools that any model can call. Every call waits for your approval. Servers
+        must allow requests from this page's origin (CORS).
+      </p>
+
+      {servers.map((server) => {
+        const state = states[server.id];
+        return (
+          <div
+            key={server.id}
+            className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-4 py-3 space-y-2"
+          >
+            <div className="flex items-center gap-3">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-[var(--text-primary)] truncate">{server.name}</p>
+                <p className="text-xs text-[var(--text-secondary)] truncate">
+                  {server.url} · {server.transport === "sse" ? "SSE" : "Streamable HTTP"}
+                </p>
+              </div>
+              {server.enabled && state ? (
+                <span
+                  className={cn(
+                    "text-xs",
+                    state.status === "error" ? "text-red-400" : "text-[var(--text-secondary)]"
+                  )}
+                >
+                  {MCP_STATUS_LABELS[state.status]}
+                </span>
+              ) : null}
+              <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+                <input
+                  type="checkbox"
+                  className="size-4 rounded border-white/20 bg-transparent text-white focus:ring-white/20"
+                  checked={server.enabled}
+                  onChange={(event) => updateServer(server.id, { enabled: event.target.checked })}
+                />
+                Enabled
+              </label>
+              <button
+                className="text-[var(--text-icon)] hover:text-red-400 transition-colors"
+                onClick={() => onChange(servers.filter((item) => item.id !== server.id))}
+                aria-label={`Remove ${server.name}`}
+              >
+                <span className="material-symbols-outlined text-[18px]">delete</span>
+              </button>
+            </div>
+            {server.enabled && state?.status === "error" ? (
+              <div className="flex items-start gap-2">
+                <p className="flex-1 text-xs text-red-400 break-words">{state.error}</p>
+                <button
+                  className="px-2 py-1 rounded-lg bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-xs text-[var(--text-primary)]"
+                  onClick={onReconnect}
+                >
+                  Reconnect
+                </button>
+              </div>
+            ) : null}
+            {server.enabled && state?.status === "connected" ? (
+              <div className="space-y-1">
+                <McpCapabilityList label="tools" items={state.tools} />
+                <McpCapabilityList
+                  label="resources"
+                  items={state.resources.map((resource) => ({
+                    name: resource.name || resource.uri,
+                    description: resource.description ?? resource.uri,
+                  }))}
+                />
+                <McpCapabilityList label="prompts" items={state.prompts} />
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+
+      <div className="rounded-2xl border border-[var(--border-subtle)] px-4 py-3 space-y-3">
+        <p className="text-sm text-[var(--text-primary)]">Add a server</p>
+        <div className="flex gap-2">
+          <input
+            className={cn(inputClass, "w-40")}
+            placeholder="Name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <input
+            className={cn(inputClass, "flex-1")}
+            placeholder="http://localhost:3001/mcp"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+          />
+          <select
+            className={inputClass}
+            value={transport}
+            onChange={(event) => setTransport(event.target.value as McpServerConfig["transport"])}
+            aria-label="Transport"
+          >
+            <option value="http">Streamable HTTP</option>
+            <option value="sse">SSE (legacy)</option>
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            className={cn(inputClass, "flex-1")}
+            placeholder="Authorization header (optional), e.g. Bearer ..."
+            value={authorization}
+            onChange={(event) => setAuthorization(event.target.value)}
+          />
+          <button
+            className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-slate-200 transition-colors"
+            onClick={addServer}
+          >
+            Add
+          </button>
+        </div>
+        {formError ? <p className="text-xs text-red-400">{formError}</p> : null}
+      </div>
+    </div>
+  );
+}
+
+function PromptTemplatesPanel({
+  templates,
+  projects,
+  onChange,
+}: {
+  templates: PromptTemplate[];
+  projects: Project[];
+  onChange: (templates: PromptTemplate[]) => void;
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [projectId, setProjectId] = useState("");
+  const [content, setContent] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const inputClass =
+    "bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]";
+  const variables = extractTemplateVariables(content);
+
+  function resetForm() {
+    setEditingId(null);
+    setName("");
+    setProjectId("");
+    setContent("");
+    setFormError(null);
+  }
+
+  function editTemplate(template: PromptTemplate) {
+    setEditingId(template.id);
+    setName(template.name);
+    setProjectId(template.projectId ?? "");
+    setContent(template.content);
+    setFormError(null);
+  }
+
+  function saveTemplate() {
+    const trimmedName = name.trim();
+    if (!trimmedName || !content.trim()) {
+      setFormError("A template needs a name and some text.");
+      return;
+    }
+    const fields = { name: trimmedName, content, projectId: projectId || undefined };
+    onChange(
+      editingId
+        ? templates.map((template) => (template.id === editingId ? { ...template, ...fields } : template))
+        : [...templates, { id: uid(), createdAt: Date.now(), ...fields }]
+    );
+    resetForm();
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-[var(--text-secondary)]">
+        Type / at the start of a message to insert a template. Write {"{{name}}"} where a value should be filled in.
+      </p>
+
+      <div className="max-h-56 overflow-y-auto space-y-2">
+        {templates.length === 0 ? (
+          <p className="text-xs text-[var(--text-secondary)]">No templates yet.</p>
+        ) : (
+          templates.map((template) => (
+            <div
+              key={template.id}
+              className={cn(
+                "flex items-center gap-3 rounded-2xl border border-[var(--border-subtle)] px-4 py-2.5",
+                template.id === editingId ? "bg-[var(--active-bg)]" : "bg-[var(--accent-soft)]"
+              )}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-[var(--text-primary)] truncate">{template.name}</p>
+                <p className="text-xs text-[var(--text-secondary)] truncate">
+                  {template.projectId
+                    ? projects.find((project) => project.id === template.projectId)?.name ?? "Deleted project"
+                    : "All conversations"}
+                  {" · "}
+                  {template.content}
+                </p>
+              </div>
+              <button
+                className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors"
+                onClick={() => editTemplate(template)}
+                aria-label={`Edit ${template.name}`}
+              >
+                <span className="material-symbols-outlined text-[18px]">edit</span>
+              </button>
+              <button
+                className="text-[var(--text-icon)] hover:text-red-400 transition-colors"
+                onClick={() => {
+                  onChange(templates.filter((item) => item.id !== template.id));
+                  if (template.id === editingId) resetForm();
+                }}
+                aria-label={`Delete ${template.name}`}
+              >
+                <span className="material-symbols-outlined text-[18px]">delete</span>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-[var(--border-subtle)] px-4 py-3 space-y-3">
+        <p className="text-sm text-[var(--text-primary)]">{editingId ? "Edit template" : "New template"}</p>
+        <div className="flex gap-2">
+          <input
+            className={cn(inputClass, "flex-1")}
+            placeholder="Name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <select
+            className={inputClass}
+            value={projectId}
+            onChange={(event) => setProjectId(event.target.value)}
+            aria-label="Available in"
+          >
+            <option value="">All conversations</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <textarea
+          className={cn(inputClass, "w-full min-h-[100px] resize-y")}
+          placeholder={"Review this {{language}} code for bugs:\n\n{{code}}"}
+          value={content}
+          onChange={(event) => setContent(event.target.value)}
+        />
+        <div className="flex items-center gap-2">
+          <p className="flex-1 text-xs text-[var(--text-secondary)] truncate">
+            {variables.length ? `Variables: ${variables.join(", ")}` : "No variables"}
+          </p>
+          {editingId ? (
+            <button
+              className="px-3 py-2 rounded-xl bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-sm text-[var(--text-primary)]"
+              onClick={resetForm}
+            >
+              Cancel
+            </button>
+          ) : null}
+          <button
+            className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-slate-200 transition-colors"
+            onClick={saveTemplate}
+          >
+            {editingId ? "Save" : "Add"}
+          </button>
+        </div>
+        {formError ? <p className="text-xs text-red-400">{formError}</p> : null}
+      </div>
+    </div>
+  );
+}
+
+function TemplateFillDialog({
+  template,
+  onInsert,
+  onClose,
+}: {
+  template: PromptTemplate;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}) {
+  const variables = useMemo(() => extractTemplateVariables(template.content), [template.content]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const inputClass =
+    "w-full bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)] resize-y";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-3xl p-6 shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]">{template.name}</h2>
+            <p className="text-xs text-[var(--text-secondary)]">Fill in the template, then edit the message before sending.</p>
+          </div>
+          <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)]" onClick={onClose}>
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+        <form
+          className="space-y-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onInsert(fillTemplate(template.content, values));
+          }}
+        >
+          {variables.map((variable, index) => (
+            <label key={variable} className="block space-y-1">
+              <span className="text-xs text-[var(--text-muted)]">{variable}</span>
+              <textarea
+                className={inputClass}
+                rows={1}
+                value={values[variable] ?? ""}
+                onChange={(event) => setValues((prev) => ({ ...prev, [variable]: event.target.value }))}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) event.currentTarget.form?.requestSubmit();
+                }}
+                autoFocus={index === 0}
+              />
+            </label>
+          ))}
+          <div className="flex items-center justify-end gap-2 pt-2">
+            <button
+              type="button"
+              className="px-4 py-2 rounded-full text-sm text-[var(--text-muted)] hover:bg-[var(--hover-bg)]"
+              onClick={onClose}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-full bg-white text-black text-sm font-semibold hover:bg-slate-200 transition-colors"
+            >
+              Insert
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+type PaletteCommand = {
+  id: string;
+  group: string;
+  label: string;
+  icon: string;
+  /** Extra words the command is found by, such as a model's provider. */
+  keywords?: string;
+  shortcut?: string;
+  run: () => void;
+};
+
+function CommandPalette({ commands, onClose }: { commands: PaletteCommand[]; onClose: () => void }) {
+  const [query, setQuery] = useState("");
+  const [highlight, setHighlight] = useState(0);
+  const listRef = useRef<HTMLDivElement | null>(null);
+
+  const matches = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return commands.filter((command) => {
+      const text = `${command.group} ${command.label} ${command.keywords ?? ""}`.toLowerCase();
+      return words.every((word) => text.includes(word));
+    });
+  }, [commands, query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${highlight}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [highlight]);
+
+  function run(command: PaletteCommand) {
+    onClose();
+    command.run();
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center pt-[12vh] z-50" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[70vh] flex flex-col bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-3xl shadow-2xl"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-[var(--border-subtle)]">
+          <span className="material-symbols-outlined text-[20px] text-[var(--text-icon)]">keyboard_command_key</span>
+          <input
+            className="flex-1 bg-transparent border-none text-sm text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] outline-none focus:ring-0 p-0"
+            placeholder="Type a command, conversation or model..."
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value);
+              setHighlight(0);
+            }}
+            onKeyDown={(event) => {
+              if (event.key === "Escape") onClose();
+              if (matches.length === 0) return;
+              if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+                event.preventDefault();
+                const step = event.key === "ArrowDown" ? 1 : matches.length - 1;
+                setHighlight((highlight + step) % matches.length);
+              }
+              if (event.key === "Enter") run(matches[Math.min(highlight, matches.length - 1)]);
+            }}
+            autoFocus
+          />
+        </div>
+        <div ref={listRef} className="flex-1 overflow-y-auto p-2">
+          {matches.length === 0 ? (
+            <p className="px-3 py-6 text-center text-xs text-[var(--text-secondary)]">No commands match.</p>
+          ) : (
+            matches.map((command, index) => (
+              <div key={command.id}>
+                {index === 0 || matches[index - 1].group !== command.group ? (
+                  <p className="px-3 pt-2 pb-1 text-[11px] text-[var(--text-secondary)]">{command.group}</p>
+                ) : null}
+                <button
+                  data-index={index}
+                  className={cn(
+                    "w-full flex items-center gap-3 text-left px-3 py-2 rounded-xl transition-colors",
+                    index === highlight ? "bg-[var(--active-bg)]" : "hover:bg-[var(--hover-bg)]"
+                  )}
+                  onMouseMove={() => setHighlight(index)}
+                  onClick={() => run(command)}
+                >
+                  <span className="material-symbols-outlined text-[18px] text-[var(--text-icon)]">{command.icon}</span>
+                  <span className="flex-1 truncate text-sm text-[var(--text-primary)]">{command.label}</span>
+                  {command.shortcut ? (
+                    <kbd className="text-[11px] text-[var(--text-secondary)] font-sans">{formatShortcut(command.shortcut)}</kbd>
+                  ) : null}
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ShortcutSettingsPanel({
+  shortcuts,
+  onChange,
+}: {
+  shortcuts: Partial<Record<ShortcutAction, string>> | undefined;
+  onChange: (shortcuts: Partial<Record<ShortcutAction, string>>) => void;
+}) {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [recordError, setRecordError] = useState<{ action: ShortcutAction; text: string } | null>(null);
+  const resolved = resolveShortcuts(shortcuts);
+  const actions = Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-4 py-3">
+        <p className="text-sm text-[var(--text-primary)]">Command palette</p>
+        <kbd className="text-xs text-[var(--text-secondary)] font-sans">{formatShortcut(COMMAND_PALETTE_SHORTCUT)}</kbd>
+      </div>
+      {actions.map((action) => {
+        const conflict = actions.find((other) => other !== action && resolved[other] === resolved[action]);
+        return (
+          <div
+            key={action}
+            className="flex items-center gap-3 rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-4 py-3"
+          >
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-[var(--text-primary)]">{SHORTCUT_LABELS[action]}</p>
+              {recordError?.action === action ? (
+                <p className="text-xs text-red-400">{recordError.text}</p>
+              ) : conflict ? (
+                <p className="text-xs text-amber-500">Also used by {SHORTCUT_LABELS[conflict].toLowerCase()}.</p>
+              ) : null}
+            </div>
+            <button
+              className={cn(
+                "min-w-[120px] px-3 py-1.5 rounded-lg border text-xs transition-colors",
+                recording === action
+                  ? "border-[var(--text-primary)] text-[var(--text-primary)]"
+                  : "border-[var(--border-subtle)] text-[var(--text-muted)] hover:bg-[var(--hover-bg)]"
+              )}
+              onClick={() => {
+                setRecording(recording === action ? null : action);
+                setRecordError(null);
+              }}
+              onBlur={() => setRecording(null)}
+              onKeyDown={(event) => {
+                if (recording !== action) return;
+                event.preventDefault();
+                event.stopPropagation();
+                if (event.key === "Escape") {
+                  setRecording(null);
+                  return;
+                }
+                const shortcut = shortcutFromEvent(event.nativeEvent);
+                if (!shortcut) return;
+                const problem = shortcutProblem(shortcut);
+                if (problem) {
+                  setRecordError({ action, text: problem });
+                  return;
+                }
+                onChange({ ...shortcuts, [action]: shortcut });
+                setRecordError(null);
+                setRecording(null);
+              }}
+            >
+              {recording === action ? "Press keys..." : formatShortcut(resolved[action])}
+            </button>
+            <button
+              className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-30"
+              onClick={() => {
+                const { [action]: _removed, ...rest } = shortcuts ?? {};
+                onChange(rest);
+              }}
+              disabled={!shortcuts?.[action]}
+              aria-label={`Reset ${SHORTCUT_LABELS[action]}`}
+              title="Reset to default"
+            >
+              <span className="material-symbols-outlined text-[18px]">restart_alt</span>
+            </button>
+          </div>
+        );
+      })}
+      <p className="text-xs text-[var(--text-secondary)]">
+        Click a shortcut and press the new keys. Shortcuts work everywhere, including while typing a message.
+      </p>
+    </div>
+  );
+}
+
 export default function App() {
-  const [settings, setSettings] = useLocalStorage<Settings>(STORAGE_KEYS.settings, defaultSettings);
-  const [conversations, setConversations] = useLocalStorage<Conversation[]>(STORAGE_KEYS.conversations, []);
+  const [settings, setSettings, settingsStorage] = useLocalStorage<Settings>(STORAGE_KEYS.settings, defaultSettings);
+  const [conversations, setConversations, conversationStorage] = useConversationStore(STORAGE_KEYS.conversations);
   const [activeConversationId, setActiveConversationId] = useLocalStorage<string | null>(
     STORAGE_KEYS.activeConversation,
     null
   );
-  const [projects, setProjects] = useLocalStorage<Project[]>(STORAGE_KEYS.projects, []);
+  const [projects, setProjects, projectStorage] = useLocalStorage<Project[]>(STORAGE_KEYS.projects, []);
   const [showSettings, setShowSettings] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [projectSettingsId, setProjectSettingsId] = useState<string | null>(null);
+  const [showMessageSearch, setShowMessageSearch] = useState(false);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [showSidebar, setShowSidebar] = useState(true);
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
+  const [toolsEnabled, setToolsEnabled] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
   const [input, setInput] = useState("");
+  const [templateHighlight, setTemplateHighlight] = useState(0);
+  const [dismissedSlashInput, setDismissedSlashInput] = useState<string | null>(null);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
   const [compareMode, setCompareMode] = useState(false);
   const [selectedModelId, setSelectedModelId] = useState(MODEL_OPTIONS[0].id);
   const [selectedCompareModels, setSelectedCompareModels] = useState<string[]>([MODEL_OPTIONS[0].id]);
   const [search, setSearch] = useState("");
-  const [settingsTab, setSettingsTab] = useState<"keys" | "models" | "appearance">("keys");
+  const [settingsTab, setSettingsTab] = useState<
+    "keys" | "models" | "mcp" | "prompts" | "shortcuts" | "appearance" | "data"
+  >("keys");
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isListening, setIsListening] = useState(false);
   const [customModelInput, setCustomModelInput] = useState("");
+  const [showOpenRouterBrowser, setShowOpenRouterBrowser] = useState(false);
+  const [customModelProvider, setCustomModelProvider] = useState<ProviderId>("openrouter");
+  const [tuningModelId, setTuningModelId] = useState<string | null>(null);
+  const mcp = useMcpServers(settings.mcpServers ?? NO_MCP_SERVERS);
+  const projectDocuments = useProjectDocuments();
+  const embeddingConfig: EmbeddingConfig | null =
+    settings.embeddingProvider && settings.keys[settings.embeddingProvider]
+      ? { providerId: settings.embeddingProvider, apiKey: settings.keys[settings.embeddingProvider] }
+      : null;
+  const [catalogStatus, setCatalogStatus] = useState<{
+    kind: "success" | "error";
+    text: string;
+    loading?: ProviderId;
+  } | null>(null);
+  const [exportIncludesKeys, setExportIncludesKeys] = useState(false);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importStatus, setImportStatus] = useState<{ kind: "success" | "error"; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editingMessageText, setEditingMessageText] = useState("");
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const recognitionRef = useRef<ISpeechRecognition | null>(null);
   const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Tool calls waiting on the user, keyed by call id
+  const toolApprovalsRef = useRef<Map<string, (approved: boolean) => void>>(new Map());
+  const pendingStreamUpdatesRef = useRef<PendingStreamUpdate[]>([]);
+  const streamFrameRef = useRef<number | null>(null);
   const themeOptions = [
     {
       id: "basic" as const,
@@ -696,8 +3551,9 @@ export default function App() {
 
   const allModels = useMemo(() => {
     const custom = Array.isArray(settings.customModels) ? settings.customModels : [];
-    return [...MODEL_OPTIONS, ...custom];
-  }, [settings.customModels]);
+    const builtIn = MODEL_OPTIONS.map((model) => ({ ...model, ...settings.modelMetadata?.[model.id] }));
+    return [...builtIn, ...custom];
+  }, [settings.customModels, settings.modelMetadata]);
 
   const enabledModels = useMemo(() => {
     const enabled = Array.isArray(settings.enabledModels)
@@ -715,6 +3571,17 @@ export default function App() {
     ? selectedCompareModels.some((modelId) => availableModels.find((m) => m.id === modelId)?.providerId === "openrouter")
     : selectedModel?.providerId === "openrouter";
 
+  const unsupportedAttachmentWarning = useMemo(() => {
+    const targets = compareMode
+      ? availableModels.filter((model) => selectedCompareModels.includes(model.id))
+      : selectedModel
+        ? [selectedModel]
+        : [];
+    const blocked = targets.filter((model) => attachments.some((att) => !acceptsAttachment(model, getAttachmentKind(att))));
+    if (blocked.length === 0) return null;
+    return `${blocked.map((model) => model.label).join(", ")} can't read some of these attachments.`;
+  }, [attachments, availableModels, compareMode, selectedCompareModels, selectedModel]);
+
   useEffect(() => {
     if (!activeConversationId && conversations.length) {
       setActiveConversationId(conversations[0].id);
@@ -781,16 +3648,56 @@ export default function App() {
     );
   }, [conversations, search]);
 
+  const storageError = conversationStorage.error ?? projectStorage.error ?? settingsStorage.error;
   const activeConversation = conversations.find((conversation) => conversation.id === activeConversationId) ?? null;
+  const activeProject = projects.find((project) => project.id === activeConversation?.projectId) ?? null;
+  const slashQuery = input === dismissedSlashInput ? null : getSlashQuery(input);
+  const templateMatches =
+    slashQuery === null
+      ? []
+      : matchTemplates(templatesForProject(settings.promptTemplates ?? [], activeProject?.id), slashQuery).slice(0, 8);
   const isStreaming = activeConversation?.messages.some((message) => message.isStreaming) ?? false;
+  const activeMessages = useMemo(
+    () => (activeConversation ? getActivePath(activeConversation) : []),
+    [activeConversation]
+  );
+  const messageTree = useMemo(
+    () => (activeConversation ? normalizeMessageTree(activeConversation.messages) : []),
+    [activeConversation]
+  );
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const frame = requestAnimationFrame(() =>
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "start" })
+    );
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => {
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+    };
+  }, [highlightedMessageId]);
+
+  // Opening a conversation in a project switches the picker to the project's
+  // models; the user can still change them for the next message.
+  const projectModelIds = activeProject?.modelIds?.join(",") ?? "";
+  useEffect(() => {
+    const modelIds = projectModelIds.split(",").filter((modelId) => availableModels.some((model) => model.id === modelId));
+    if (modelIds.length === 0) return;
+    setCompareMode(modelIds.length > 1);
+    setSelectedModelId(modelIds[0]);
+    setSelectedCompareModels(modelIds);
+    // Runs only when the conversation or the project's models change, so
+    // editing keys or enabled models does not undo the user's own choice
+  }, [activeConversationId, projectModelIds]);
 
-  function createNewChat() {
+  function createNewChat(projectId: string | null = null) {
     const newConversation: Conversation = {
       id: uid(),
       title: `New Chat ${conversations.length + 1}`,
       messages: [],
       updatedAt: Date.now(),
-      projectId: null,
+      projectId,
     };
     setConversations([newConversation, ...conversations]);
     setActiveConversationId(newConversation.id);
@@ -812,6 +3719,17 @@ export default function App() {
     }));
   }
 
+  // Opens a message found by search, switching branches so it is on the visible path
+  function openMessage(conversationId: string, messageId: string) {
+    updateConversation(conversationId, (conversation) => ({
+      ...conversation,
+      activeBranches: { ...conversation.activeBranches, ...branchesToMessage(conversation, messageId) },
+    }));
+    setActiveConversationId(conversationId);
+    setShowMessageSearch(false);
+    setHighlightedMessageId(messageId);
+  }
+
   function createProject() {
     const newProject: Project = { id: uid(), name: `Project ${projects.length + 1}` };
     setProjects([...projects, newProject]);
@@ -819,11 +3737,27 @@ export default function App() {
     setEditingName(newProject.name);
   }
 
+  function updateProject(project: Project) {
+    setProjects((prev) => prev.map((item) => (item.id === project.id ? project : item)));
+  }
+
   function deleteProject(projectId: string) {
     setProjects(projects.filter((p) => p.id !== projectId));
+    const documentIds = projectDocuments.documents
+      .filter((document) => document.projectId === projectId)
+      .map((document) => document.id);
+    if (documentIds.length) projectDocuments.removeDocuments(documentIds);
     setConversations((prev) =>
       prev.map((c) => (c.projectId === projectId ? { ...c, projectId: null } : c))
     );
+    if (settings.promptTemplates?.some((template) => template.projectId === projectId)) {
+      setSettings({
+        ...settings,
+        promptTemplates: settings.promptTemplates.map((template) =>
+          template.projectId === projectId ? { ...template, projectId: undefined } : template
+        ),
+      });
+    }
   }
 
   function renameProject(projectId: string, name: string) {
@@ -863,14 +3797,6 @@ export default function App() {
     }));
   }
 
-  async function copyToClipboard(text: string) {
-    try {
-      await navigator.clipboard.writeText(text);
-    } catch {
-      // ignore
-    }
-  }
-
   function handleFileSelect(event: React.ChangeEvent<HTMLInputElement>) {
     const files = event.target.files;
     if (!files) return;
@@ -888,6 +3814,17 @@ export default function App() {
     setAttachments((prev) => prev.filter((_, i) => i !== index));
   }
 
+  // Templates with variables go through the fill-in form; the rest replace the slash command directly
+  function insertTemplate(template: PromptTemplate) {
+    setTemplateHighlight(0);
+    if (extractTemplateVariables(template.content).length) {
+      setFillingTemplate(template);
+      return;
+    }
+    setInput(template.content);
+    textareaRef.current?.focus();
+  }
+
   function toggleSpeechRecognition() {
     if (isListening) {
       recognitionRef.current?.stop();
@@ -923,16 +3860,13 @@ export default function App() {
     setIsListening(true);
   }
 
-  function downloadCode(filename: string, content: string) {
-    const blob = new Blob([content], { type: "text/plain;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    link.remove();
-    URL.revokeObjectURL(url);
+  function setModelParams(modelId: string, params: GenerationParams) {
+    setSettings((prev) => ({ ...prev, modelParams: { ...prev.modelParams, [modelId]: params } }));
+  }
+
+  function setConversationParams(params: GenerationParams) {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, (conversation) => ({ ...conversation, params }));
   }
 
   function updateConversation(conversationId: string, updater: (conversation: Conversation) => Conversation) {
@@ -941,6 +3875,38 @@ export default function App() {
     );
   }
 
+  // Streamed chunks are buffered and applied once per animation frame, so
+  // several models streaming at once cost one state update per frame.
+  function queueStreamUpdate(conversationId: string, messageId: string, apply: (message: Message) => Message) {
+    pendingStreamUpdatesRef.current.push({ conversationId, messageId, apply });
+    if (streamFrameRef.current === null) {
+      streamFrameRef.current = requestAnimationFrame(flushStreamUpdates);
+    }
+  }
+
+  function flushStreamUpdates() {
+    if (streamFrameRef.current !== null) {
+      cancelAnimationFrame(streamFrameRef.current);
+      streamFrameRef.current = null;
+    }
+    const pending = pendingStreamUpdatesRef.current;
+    if (pending.length === 0) return;
+    pendingStreamUpdatesRef.current = [];
+    setConversations((prev) =>
+      prev.map((conversation) => {
+        const updates = pending.filter((update) => update.conversationId === conversation.id);
+        if (updates.length === 0) return conversation;
+        return {
+          ...conversation,
+          messages: conversation.messages.map((message) =>
+            updates.reduce((current, update) => (update.messageId === message.id ? update.apply(current) : current), message)
+          ),
+          updatedAt: Date.now(),
+        };
+      })
+    );
+  }
+
   async function sendMessage() {
     if (!activeConversation) {
       createNewChat();
@@ -955,25 +3921,241 @@ export default function App() {
       return;
     }
 
-    const baseMessages = activeConversation.messages;
     const currentAttachments = attachments.length > 0 ? [...attachments] : undefined;
+    const lastUserMessage = [...activeMessages].reverse().find((message) => message.role === "user");
+
+    setInput("");
+    setAttachments([]);
+
+    await submitUserMessage(activeConversation, trimmed, currentAttachments, activeMessages, lastUserMessage?.id ?? null);
+  }
+
+  async function submitEditedMessage(messageId: string) {
+    if (!activeConversation) return;
+    const index = activeMessages.findIndex((message) => message.id === messageId);
+    const original = activeMessages[index];
+    const trimmed = editingMessageText.trim();
+    if (!original || (!trimmed && !original.attachments?.length)) return;
+    if (availableModels.length === 0) {
+      setShowSettings(true);
+      setSettingsTab("keys");
+      return;
+    }
+
+    setEditingMessageId(null);
+    setEditingMessageText("");
+    if (trimmed === original.content) return;
+
+    await submitUserMessage(
+      activeConversation,
+      trimmed,
+      original.attachments,
+      activeMessages.slice(0, index),
+      original.parentId ?? null
+    );
+  }
+
+  function rateMessage(messageId: string, rating: MessageFeedback["rating"] | null) {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, (conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.id === messageId
+          ? {
+              ...message,
+              feedback: rating ? { rating, note: message.feedback?.note, ratedAt: Date.now() } : undefined,
+            }
+          : message
+      ),
+    }));
+  }
+
+  function setFeedbackNote(messageId: string, note: string) {
+    if (!activeConversation) return;
+    const trimmed = note.trim();
+    updateConversation(activeConversation.id, (conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.id === messageId && message.feedback && message.feedback.note !== (trimmed || undefined)
+          ? { ...message, feedback: { ...message.feedback, note: trimmed || undefined } }
+          : message
+      ),
+    }));
+  }
+
+  function addCustomModel() {
+    const tag = customModelInput.trim();
+    if (!tag) return;
+    const fullId = `${customModelProvider}/${tag}`;
+    if (allModels.some((m) => m.id === fullId)) { setCustomModelInput(""); return; }
+    const newModel: ModelItem = { id: fullId, label: labelFromModelName(tag), providerId: customModelProvider };
+    setSettings({
+      ...settings,
+      customModels: [...(settings.customModels ?? []), newModel],
+      enabledModels: [...settings.enabledModels, fullId],
+    });
+    setCustomModelInput("");
+  }
+
+  // Saved OpenRouter models pick up current names, pricing and modalities
+  // whenever the catalog is loaded. Built-in models keep their labels and take
+  // the catalog's capabilities over the bundled defaults.
+  function refreshOpenRouterMetadata(catalog: ModelItem[]) {
+    const byId = new Map(catalog.map((model) => [model.id, model]));
+    const modelMetadata: Record<string, CatalogMetadata> = {};
+    MODEL_OPTIONS.forEach((model) => {
+      const fresh = byId.get(model.id);
+      if (!fresh) return;
+      const { contextLength, pricing, inputModalities, outputModalities } = fresh;
+      // Fields the catalog leaves out keep the bundled value
+      modelMetadata[model.id] = Object.fromEntries(
+        Object.entries({ contextLength, pricing, inputModalities, outputModalities }).filter(([, value]) => value !== undefined)
+      );
+    });
+    setSettings((prev) => ({
+      ...prev,
+      modelMetadata: { ...prev.modelMetadata, ...modelMetadata },
+      catalogRefreshedAt: Date.now(),
+      customModels: (prev.customModels ?? []).map((model) => {
+        const fresh = byId.get(model.id);
+        return fresh ? { ...model, ...fresh, label: model.label || fresh.label, supportsImages: undefined } : model;
+      }),
+    }));
+  }
+
+  useEffect(() => {
+    if (Date.now() - (settings.catalogRefreshedAt ?? 0) < CATALOG_REFRESH_MS) return;
+    let cancelled = false;
+    fetchOpenRouterCatalog()
+      .then((catalog) => {
+        if (!cancelled) refreshOpenRouterMetadata(catalog);
+      })
+      .catch(() => {
+        // Offline or blocked: the bundled capabilities stay in use until the next load
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Checked once per page load; the timestamp keeps it to about once a day
+  }, []);
+
+  // Fetched models are added disabled so a long catalog doesn't flood the picker.
+  async function loadProviderModels(providerId: ProviderId) {
+    setCatalogStatus({ kind: "success", text: "", loading: providerId });
+    try {
+      const fetched = await fetchProviderModels(providerId, settings.keys[providerId]);
+      const known = new Set(allModels.map((model) => model.id));
+      const added = fetched.filter((model, index) => !known.has(model.id) && fetched.findIndex((m) => m.id === model.id) === index);
+      setSettings((prev) => ({ ...prev, customModels: [...(prev.customModels ?? []), ...added] }));
+      setCatalogStatus({
+        kind: "success",
+        text: added.length
+          ? `Added ${added.length} ${PROVIDERS[providerId].name} models. Tick the ones you want in the picker.`
+          : `No new ${PROVIDERS[providerId].name} models found.`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setCatalogStatus({ kind: "error", text: `Could not load ${PROVIDERS[providerId].name} models: ${message}` });
+    }
+  }
+
+  function exportConversation(format: ConversationExportFormat) {
+    if (!activeConversation) return;
+    const filename = activeConversation.title.replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-") || "conversation";
+    if (format === "markdown") {
+      const markdown = conversationToMarkdown(activeConversation.title, activeMessages, allModels);
+      downloadFile(`${filename}.md`, markdown, "text/markdown;charset=utf-8");
+      return;
+    }
+    const html = conversationToHtml(activeConversation.title, activeMessages, allModels, readThemeVariables());
+    if (format === "html") {
+      downloadFile(`${filename}.html`, html, "text/html;charset=utf-8");
+      return;
+    }
+    try {
+      printConversation(html);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : "Could not open the print view.");
+    }
+  }
+
+  function exportBackup() {
+    const bundle = createBackup({ conversations, projects, settings }, { includeApiKeys: exportIncludesKeys });
+    const date = new Date(bundle.exportedAt).toISOString().slice(0, 10);
+    downloadFile(`apeiron-backup-${date}.json`, JSON.stringify(bundle, null, 2), "application/json");
+  }
+
+  async function handleImportFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    if (isStreaming) {
+      setImportStatus({ kind: "error", text: "Stop the current response before importing." });
+      return;
+    }
+    try {
+      const bundle = parseBackup(await file.text());
+      if (importMode === "replace") {
+        setConversations(bundle.conversations);
+        setProjects(bundle.projects);
+        setActiveConversationId(bundle.conversations[0]?.id ?? null);
+      } else {
+        setConversations((prev) => mergeById(prev, bundle.conversations));
+        setProjects((prev) => mergeById(prev, bundle.projects));
+      }
+      setSettings(importSettings({ ...defaultSettings, ...settings }, bundle.settings, importMode));
+      setImportStatus({
+        kind: "success",
+        text: `Imported ${bundle.conversations.length} conversations and ${bundle.projects.length} projects.`,
+      });
+    } catch (error) {
+      setImportStatus({ kind: "error", text: error instanceof Error ? error.message : "Import failed." });
+    }
+  }
+
+  function selectResponse(userMessageId: string, responseId: string | null) {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, (conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.id === userMessageId ? { ...message, selectedResponseId: responseId ?? undefined } : message
+      ),
+      updatedAt: Date.now(),
+    }));
+  }
+
+  function selectBranch(parentId: string | null, messageId: string) {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, (conversation) => ({
+      ...conversation,
+      activeBranches: { ...conversation.activeBranches, [parentId ?? ROOT_BRANCH]: messageId },
+    }));
+  }
 
+  // Appends a user turn under `parentId` and makes it the active branch, so an
+  // edit becomes a sibling of the original prompt instead of replacing it.
+  async function submitUserMessage(
+    targetConversation: Conversation,
+    content: string,
+    messageAttachments: Attachment[] | undefined,
+    baseMessages: Message[],
+    parentId: string | null
+  ) {
     const userMessage: Message = {
       id: uid(),
       role: "user",
-      content: trimmed,
+      content,
       createdAt: Date.now(),
-      attachments: currentAttachments,
+      attachments: messageAttachments,
+      parentId,
     };
 
-    setInput("");
-    setAttachments([]);
-
-    updateConversation(activeConversation.id, (conversation) => ({
+    updateConversation(targetConversation.id, (conversation) => ({
       ...conversation,
       messages: [...conversation.messages, userMessage],
+      activeBranches: { ...conversation.activeBranches, [parentId ?? ROOT_BRANCH]: userMessage.id },
       updatedAt: Date.now(),
-      title: conversation.messages.length === 0 ? trimmed.slice(0, 40) : conversation.title,
+      title: conversation.messages.length === 0 ? content.slice(0, 40) : conversation.title,
     }));
 
     const modelsToRun = compareMode
@@ -982,130 +4164,559 @@ export default function App() {
         ? [selectedModel.id]
         : [];
 
-    const tasks = modelsToRun.map(async (modelId) => {
-      const model = availableModels.find((m) => m.id === modelId) ?? selectedModel;
-      if (!model) return;
-      const useWebSearch = webSearchEnabled && model.providerId === "openrouter";
-      const requestModel = model.id.startsWith("openrouter/") ? model.id.replace("openrouter/", "") : model.id;
-      const controller = new AbortController();
-      const assistantMessage: Message = {
-        id: uid(),
-        role: "assistant",
-        content: "",
-        createdAt: Date.now(),
-        modelId: model.id,
-        providerId: model.providerId,
-        isStreaming: true,
-      };
+    const tasks = modelsToRun.map(async (modelId) => {
+      const model = availableModels.find((m) => m.id === modelId) ?? selectedModel;
+      if (!model) return;
+      const assistantMessage: Message = {
+        id: uid(),
+        role: "assistant",
+        content: "",
+        createdAt: Date.now(),
+        modelId: model.id,
+        providerId: model.providerId,
+        isStreaming: true,
+        parentId: userMessage.id,
+      };
+
+      updateConversation(targetConversation.id, (conversation) => ({
+        ...conversation,
+        messages: [...conversation.messages, assistantMessage],
+        updatedAt: Date.now(),
+      }));
+
+      const contextMessages = buildContext([...baseMessages, userMessage], model.id, model.providerId);
+      await streamAssistantMessage(targetConversation.id, assistantMessage.id, model, contextMessages);
+    });
+
+    await Promise.all(tasks);
+  }
+
+  async function regenerateMessage(messageId: string, retry = false) {
+    if (!activeConversation) return;
+    const target = activeMessages.find((message) => message.id === messageId);
+    if (!target || target.role !== "assistant" || target.isStreaming || !target.modelId) return;
+    const model = allModels.find((m) => m.id === target.modelId && m.providerId === target.providerId);
+    if (!model || !settings.keys[model.providerId]) {
+      setShowSettings(true);
+      setSettingsTab("keys");
+      return;
+    }
+
+    const userIndex = activeMessages.findIndex((message) => message.id === target.parentId);
+    if (userIndex === -1) return;
+    const contextMessages = buildContext(activeMessages.slice(0, userIndex + 1), model.id, model.providerId);
+
+    updateConversation(activeConversation.id, (conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.id === messageId ? (retry ? restartVersion(message) : startNewVersion(message)) : message
+      ),
+      updatedAt: Date.now(),
+    }));
+
+    await streamAssistantMessage(activeConversation.id, messageId, model, contextMessages);
+  }
+
+  function selectMessageVersion(messageId: string, index: number) {
+    if (!activeConversation) return;
+    updateConversation(activeConversation.id, (conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.id === messageId && !message.isStreaming ? switchVersion(message, index) : message
+      ),
+    }));
+  }
+
+  function respondToToolCall(callId: string, approved: boolean) {
+    toolApprovalsRef.current.get(callId)?.(approved);
+  }
+
+  async function streamAssistantMessage(
+    conversationId: string,
+    assistantMessageId: string,
+    model: ModelItem,
+    contextMessages: Message[]
+  ) {
+    const useWebSearch = webSearchEnabled && model.providerId === "openrouter";
+    const requestModel = getRequestModelId(model);
+    const controller = new AbortController();
+    abortControllersRef.current.set(assistantMessageId, controller);
+    // Image models rarely accept tool definitions. MCP tools are offered whenever a server is connected.
+    const tools = canGenerateImages(model) ? [] : [...(toolsEnabled ? BUILTIN_TOOLS : []), ...mcp.tools];
+    const conversation = conversations.find((item) => item.id === conversationId);
+    const project = projects.find((item) => item.id === conversation?.projectId);
+    const params = resolveGenerationParams(
+      model.defaultParams,
+      settings.modelParams?.[model.id],
+      project?.params,
+      conversation?.params
+    );
+    const projectFiles = project?.files ?? [];
+    const documents = projectDocuments.documents.filter((document) => document.projectId === project?.id);
+    let retrievedContext = "";
+    const update = (apply: (message: Message) => Message) =>
+      queueStreamUpdate(conversationId, assistantMessageId, apply);
+    let contentLength = 0;
+    let spent: TokenUsage | undefined;
+    const strategy = settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY;
+    let { messages: unsummarized, summary } = messagesAfterSummary(
+      contextMessages,
+      strategy === "summarize" ? conversation?.contextSummary : undefined
+    );
+    const systemPromptWith = (current: ContextSummary | undefined) =>
+      [settings.systemPrompt, project?.systemPrompt, retrievedContext, current ? summaryToSystemPrompt(current) : ""]
+        .filter(Boolean)
+        .join("\n\n");
+    // Measured inside the try below: decoding a malformed attachment throws
+    let filesTokens = 0;
+    const fit = (messages: Message[], current: ContextSummary | undefined) =>
+      fitContext(messages, {
+        budget: Math.max(0, getInputBudget(model, params, systemPromptWith(current)) - filesTokens),
+        strategy,
+        windowTurns: settings.contextWindowTurns,
+      });
+    // Pinned project files ride along with the oldest message sent, so they stay ahead of the conversation
+    const withProjectFiles = (messages: Message[]) =>
+      projectFiles.length && messages.length
+        ? [{ ...messages[0], attachments: [...projectFiles, ...(messages[0].attachments ?? [])] }, ...messages.slice(1)]
+        : messages;
+    let fitted: FittedContext = { messages: [], dropped: [], estimatedTokens: 0 };
+
+    // Folds the turns that no longer fit into the conversation's summary, so
+    // they keep informing the answer without being sent in full. Long stretches
+    // are folded in batches that each fit the model.
+    async function summarizeDropped() {
+      let folded = summary;
+      for (const batch of summaryBatches(fitted.dropped, getInputBudget(model, params, ""))) {
+        let text = "";
+        await streamProviderResponse({
+          providerId: model.providerId,
+          apiKey: settings.keys[model.providerId],
+          model: requestModel,
+          messages: [{ id: uid(), role: "user", content: buildSummaryRequest(batch, folded), createdAt: Date.now() }],
+          params,
+          onToken: (token) => {
+            text += token;
+          },
+          onUsage: (usage) => {
+            spent = addTokenUsage(spent, usage);
+          },
+          signal: controller.signal,
+        });
+        if (!text.trim()) throw new Error("The model returned an empty summary of the earlier conversation.");
+        folded = {
+          content: text.trim(),
+          throughMessageId: summaryAnchor(fitted.dropped).id,
+          modelId: model.id,
+          createdAt: Date.now(),
+        };
+      }
+      if (!folded) return;
+      const next = folded;
+      // Compare-mode answers summarize side by side; the one reaching furthest is kept
+      updateConversation(conversationId, (conversation) => {
+        const stored = conversation.contextSummary;
+        const reach = (item: ContextSummary | undefined) =>
+          item ? conversation.messages.find((message) => message.id === item.throughMessageId)?.createdAt ?? -1 : -1;
+        return reach(stored) > reach(next) ? conversation : { ...conversation, contextSummary: next };
+      });
+      summary = next;
+      unsummarized = fitted.messages;
+      fitted = fit(unsummarized, summary);
+    }
+
+    // Rate limits and outages are retried with backoff, but only until part of
+    // the answer has arrived; a retry after that would repeat it.
+    async function requestStep(continuation: unknown[]) {
+      let received = false;
+      let stepUsage: TokenUsage | undefined;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await streamProviderResponse({
+            providerId: model.providerId,
+            apiKey: settings.keys[model.providerId],
+            model: requestModel,
+            messages: filterAttachmentsForModel(withProjectFiles(fitted.messages), model),
+            systemPrompt: systemPromptWith(summary),
+            params,
+            onToken: (token) => {
+              received = true;
+              contentLength += token.length;
+              update((message) => ({ ...message, content: message.content + token }));
+            },
+            onReasoning: (token) => {
+              received = true;
+              update((message) => ({ ...message, reasoning: (message.reasoning ?? "") + token }));
+            },
+            onUsage: (usage) => {
+              stepUsage = usage;
+              update((message) => ({ ...message, usage: addTokenUsage(spent, usage) }));
+            },
+            onImage: (url) => {
+              received = true;
+              update((message) => ({ ...message, images: [...(message.images ?? []), url] }));
+            },
+            onAnnotations: (annotations) => {
+              const incoming = extractSources(annotations);
+              if (incoming.length === 0) return;
+              update((message) => ({ ...message, sources: mergeSources(message.sources, incoming) }));
+            },
+            supportsImages: canGenerateImages(model),
+            signal: controller.signal,
+            plugins: useWebSearch ? [{ id: "web" }] : undefined,
+            tools,
+            continuation,
+          });
+          if (stepUsage) spent = addTokenUsage(spent, stepUsage);
+          return result;
+        } catch (error) {
+          if (received || (error instanceof DOMException && error.name === "AbortError")) throw error;
+          const detail = toMessageError(error);
+          if (!isRetryable(detail) || attempt >= MAX_REQUEST_RETRIES) throw error;
+          const delay = Math.min(detail.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+          if (!(await waitForRetry(delay, controller.signal))) throw new DOMException("Stopped", "AbortError");
+        }
+      }
+    }
+
+    // Looks up the project documents for the latest message and hands the best
+    // excerpts to the model, listing them as the answer's sources.
+    async function retrieveDocuments() {
+      const query = contextMessages[contextMessages.length - 1]?.content ?? "";
+      let queryEmbedding: { model: string; vector: number[] } | undefined;
+      if (embeddingConfig && documents.some((document) => document.embeddingModel === embeddingModelId(embeddingConfig.providerId))) {
+        try {
+          const [vector] = await embedTexts(embeddingConfig.providerId, embeddingConfig.apiKey, [query]);
+          queryEmbedding = { model: embeddingModelId(embeddingConfig.providerId), vector };
+        } catch {
+          // Keyword search alone still finds most passages; a failed embedding should not fail the answer
+        }
+      }
+      const hits = retrieveChunks(documents, query, { limit: RETRIEVED_CHUNK_LIMIT, queryEmbedding });
+      if (hits.length === 0) return;
+      retrievedContext = formatRetrievedContext(hits);
+      const citations = hits.map(chunkCitation);
+      update((message) => ({ ...message, sources: mergeSources(message.sources, citations) }));
+      fitted = fit(unsummarized, summary);
+    }
+
+    try {
+      filesTokens = projectFiles.length
+        ? estimateMessageTokens({ id: "", role: "user", content: "", createdAt: 0, attachments: projectFiles })
+        : 0;
+      fitted = fit(unsummarized, summary);
+      if (documents.length > 0) await retrieveDocuments();
+      if (strategy === "summarize" && fitted.dropped.length > 0) await summarizeDropped();
+      const context: ContextUsage = {
+        estimatedTokens: fitted.estimatedTokens + filesTokens + estimateTokens(systemPromptWith(summary)),
+        contextLength: getContextLength(model),
+        droppedMessages: contextMessages.length - fitted.messages.length,
+        summarized: summary !== undefined,
+      };
+      update((message) => ({ ...message, context }));
+
+      // Each request either finishes the answer or asks for tools, whose
+      // results go back to the model in the next request.
+      const continuation: unknown[] = [];
+      let answered = false;
+      for (let step = 0; step < MAX_TOOL_STEPS; step++) {
+        const result = await requestStep(continuation);
+        if (!result.turn || result.toolCalls.length === 0) {
+          answered = true;
+          break;
+        }
+        const offset = contentLength;
+        const needsApproval = (call: RequestedToolCall) =>
+          tools.find((tool) => tool.name === call.name)?.requiresApproval === true;
+        const setToolCall = (id: string, patch: Partial<ToolCallRecord>) =>
+          update((message) => ({
+            ...message,
+            toolCalls: message.toolCalls?.map((record) => (record.id === id ? { ...record, ...patch } : record)),
+          }));
+        update((message) => ({
+          ...message,
+          toolCalls: [
+            ...(message.toolCalls ?? []),
+            ...result.toolCalls.map((call) => ({
+              ...call,
+              offset,
+              status: needsApproval(call) ? ("pending" as const) : ("running" as const),
+            })),
+          ],
+        }));
+        const outcomes = await Promise.all(
+          result.toolCalls.map(async (call): Promise<ToolCallOutcome> => {
+            if (needsApproval(call)) {
+              const approved = await waitForApproval(toolApprovalsRef.current, call.id, controller.signal);
+              if (!approved) {
+                const outcome = { ...call, result: "The user declined this tool call.", isError: true };
+                setToolCall(call.id, { status: "denied", result: outcome.result });
+                return outcome;
+              }
+              setToolCall(call.id, { status: "running" });
+            }
+            const outcome = await runToolCall(tools, call, { conversations });
+            setToolCall(call.id, { status: outcome.isError ? "error" : "done", result: outcome.result });
+            return outcome;
+          })
+        );
+        if (controller.signal.aborted) break;
+        continuation.push(result.turn, ...toolResultTurns(PROVIDERS[model.providerId].type, outcomes));
+      }
+      // The last tool results were never sent back, so the reply would end mid-task without saying why
+      if (!answered && !controller.signal.aborted) {
+        throw new Error(`Stopped after ${MAX_TOOL_STEPS} rounds of tool calls without a final answer.`);
+      }
+    } catch (error) {
+      flushStreamUpdates();
+      abortControllersRef.current.delete(assistantMessageId);
+      const aborted = error instanceof DOMException && error.name === "AbortError";
+      updateConversation(conversationId, (conversation) => ({
+        ...conversation,
+        messages: conversation.messages.map((msg) =>
+          msg.id === assistantMessageId
+            ? { ...msg, isStreaming: false, error: aborted ? undefined : toMessageError(error) }
+            : msg
+        ),
+        updatedAt: Date.now(),
+      }));
+      return;
+    }
+
+    flushStreamUpdates();
+    abortControllersRef.current.delete(assistantMessageId);
+    updateConversation(conversationId, (conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) =>
+        message.id === assistantMessageId ? { ...message, isStreaming: false } : message
+      ),
+      updatedAt: Date.now(),
+    }));
+  }
+
+  // The handlers close over this render's state, so messages get stable
+  // wrappers that call the latest ones and stay memoized while others stream.
+  const latestMessageActionsRef = useRef<ChatMessageActions | null>(null);
+  latestMessageActionsRef.current = {
+    regenerate: regenerateMessage,
+    openApiKeys: () => openSettingsTab("keys"),
+    startEditing: (message) => {
+      setEditingMessageId(message.id);
+      setEditingMessageText(message.content);
+    },
+    setEditingText: setEditingMessageText,
+    cancelEditing: () => {
+      setEditingMessageId(null);
+      setEditingMessageText("");
+    },
+    submitEdit: submitEditedMessage,
+    selectBranch,
+    selectVersion: selectMessageVersion,
+    selectResponse,
+    rate: rateMessage,
+    setFeedbackNote,
+    respondToToolCall,
+  };
+  const messageActions = useMemo<ChatMessageActions>(() => {
+    const latest = () => latestMessageActionsRef.current!;
+    return {
+      regenerate: (messageId, retry) => latest().regenerate(messageId, retry),
+      openApiKeys: () => latest().openApiKeys(),
+      startEditing: (message) => latest().startEditing(message),
+      setEditingText: (text) => latest().setEditingText(text),
+      cancelEditing: () => latest().cancelEditing(),
+      submitEdit: (messageId) => latest().submitEdit(messageId),
+      selectBranch: (parentId, messageId) => latest().selectBranch(parentId, messageId),
+      selectVersion: (messageId, index) => latest().selectVersion(messageId, index),
+      selectResponse: (userMessageId, responseId) => latest().selectResponse(userMessageId, responseId),
+      rate: (messageId, rating) => latest().rate(messageId, rating),
+      setFeedbackNote: (messageId, note) => latest().setFeedbackNote(messageId, note),
+      respondToToolCall: (callId, approved) => latest().respondToToolCall(callId, approved),
+    };
+  }, []);
+
+  function renderMessage(message: Message, inColumn = false) {
+    const isSelectedResponse =
+      message.role === "assistant" &&
+      activeMessages.some((m) => m.id === message.parentId && m.selectedResponseId === message.id);
+    return (
+      <ChatMessage
+        message={message}
+        inColumn={inColumn}
+        highlighted={highlightedMessageId === message.id}
+        isSelectedResponse={isSelectedResponse}
+        siblings={message.role === "user" ? getUserSiblings(messageTree, message.parentId ?? null) : []}
+        editingText={editingMessageId === message.id ? editingMessageText : null}
+        conversationStreaming={isStreaming}
+        models={allModels}
+        actions={messageActions}
+      />
+    );
+  }
 
-      abortControllersRef.current.set(assistantMessage.id, controller);
+  const shortcuts = resolveShortcuts(settings.shortcuts);
+  const lastAnswer = [...activeMessages].reverse().find((message) => message.role === "assistant") ?? null;
 
-      updateConversation(activeConversation.id, (conversation) => ({
-        ...conversation,
-        messages: [...conversation.messages, assistantMessage],
-        updatedAt: Date.now(),
-      }));
+  function regenerateLastAnswer() {
+    if (lastAnswer && !isStreaming) regenerateMessage(lastAnswer.id);
+  }
 
-      const contextMessages = buildContext([...baseMessages, userMessage], model.id, model.providerId);
+  function copyLastAnswer() {
+    if (lastAnswer?.content) copyToClipboard(lastAnswer.content);
+  }
 
-      try {
-        await streamProviderResponse({
-          providerId: model.providerId,
-          apiKey: settings.keys[model.providerId],
-          model: requestModel,
-          messages: contextMessages,
-          systemPrompt: settings.systemPrompt,
-          onToken: (token) => {
-            updateConversation(activeConversation.id, (conversation) => ({
-              ...conversation,
-              messages: conversation.messages.map((message) =>
-                message.id === assistantMessage.id
-                  ? {
-                      ...message,
-                      content: message.content + token,
-                      isStreaming: true,
-                    }
-                  : message
-              ),
-              updatedAt: Date.now(),
-            }));
-          },
-          onImage: (url) => {
-            updateConversation(activeConversation.id, (conversation) => ({
-              ...conversation,
-              messages: conversation.messages.map((message) =>
-                message.id === assistantMessage.id
-                  ? {
-                      ...message,
-                      images: [...(message.images ?? []), url],
-                      isStreaming: true,
-                    }
-                  : message
-              ),
-              updatedAt: Date.now(),
-            }));
-          },
-          onAnnotations: (annotations) => {
-            const incoming = extractSources(annotations);
-            if (incoming.length === 0) return;
-            updateConversation(activeConversation.id, (conversation) => ({
-              ...conversation,
-              messages: conversation.messages.map((message) =>
-                message.id === assistantMessage.id
-                  ? {
-                      ...message,
-                      sources: mergeSources(message.sources, incoming),
-                      isStreaming: true,
-                    }
-                  : message
-              ),
-              updatedAt: Date.now(),
-            }));
-          },
-          supportsImages: model.supportsImages,
-          signal: controller.signal,
-          plugins: useWebSearch ? [{ id: "web" }] : undefined,
-        });
-      } catch (error) {
-        abortControllersRef.current.delete(assistantMessage.id);
-        if (error instanceof DOMException && error.name === "AbortError") {
-          updateConversation(activeConversation.id, (conversation) => ({
-            ...conversation,
-            messages: conversation.messages.map((msg) =>
-              msg.id === assistantMessage.id ? { ...msg, isStreaming: false } : msg
-            ),
-            updatedAt: Date.now(),
-          }));
-          return;
-        }
-        const message = error instanceof Error ? error.message : "Unknown error";
-        updateConversation(activeConversation.id, (conversation) => ({
-          ...conversation,
-          messages: conversation.messages.map((msg) =>
-            msg.id === assistantMessage.id
-              ? {
-                  ...msg,
-                  content: `Error: ${message}`,
-                  isStreaming: false,
-                }
-              : msg
-          ),
-          updatedAt: Date.now(),
-        }));
+  function openSettingsTab(tab: typeof settingsTab) {
+    setSettingsTab(tab);
+    setShowSettings(true);
+  }
+
+  // Re-subscribed every render so the handlers always see the current conversation
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const shortcut = shortcutFromEvent(event);
+      if (!shortcut) return;
+      if (shortcut === COMMAND_PALETTE_SHORTCUT) {
+        event.preventDefault();
+        setShowCommandPalette((prev) => !prev);
         return;
       }
+      // A bare key from an older or hand-edited backup would swallow typing, so it never fires
+      if (shortcutProblem(shortcut)) return;
+      const action = (Object.keys(shortcuts) as ShortcutAction[]).find((key) => shortcuts[key] === shortcut);
+      if (!action) return;
+      event.preventDefault();
+      if (action === "stopStreaming" && isStreaming) stopStreaming();
+      if (action === "regenerate") regenerateLastAnswer();
+      if (action === "copyLastAnswer") copyLastAnswer();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
-      abortControllersRef.current.delete(assistantMessage.id);
-      updateConversation(activeConversation.id, (conversation) => ({
-        ...conversation,
-        messages: conversation.messages.map((message) =>
-          message.id === assistantMessage.id ? { ...message, isStreaming: false } : message
-        ),
-        updatedAt: Date.now(),
-      }));
+  function paletteCommands(): PaletteCommand[] {
+    const commands: PaletteCommand[] = [
+      { id: "new-chat", group: "Actions", label: "New chat", icon: "edit_square", run: () => createNewChat(activeProject?.id) },
+      { id: "new-project", group: "Actions", label: "New project", icon: "create_new_folder", run: createProject },
+      {
+        id: "search-messages",
+        group: "Actions",
+        label: "Search messages",
+        icon: "manage_search",
+        run: () => setShowMessageSearch(true),
+      },
+      {
+        id: "toggle-compare",
+        group: "Actions",
+        label: compareMode ? "Turn off compare mode" : "Turn on compare mode",
+        icon: "compare",
+        run: () => setCompareMode((prev) => !prev),
+      },
+    ];
+    if (canUseWebSearch) {
+      commands.push({
+        id: "toggle-web-search",
+        group: "Actions",
+        label: webSearchEnabled ? "Turn off web search" : "Turn on web search",
+        icon: "language",
+        run: () => setWebSearchEnabled((prev) => !prev),
+      });
+    }
+    commands.push({
+      id: "toggle-tools",
+      group: "Actions",
+      label: toolsEnabled ? "Turn off tools" : "Turn on tools",
+      icon: "build",
+      run: () => setToolsEnabled((prev) => !prev),
     });
-
-    await Promise.all(tasks);
+    if (isStreaming) {
+      commands.push({
+        id: "stop",
+        group: "Actions",
+        label: SHORTCUT_LABELS.stopStreaming,
+        icon: "stop_circle",
+        shortcut: shortcuts.stopStreaming,
+        run: stopStreaming,
+      });
+    }
+    if (lastAnswer) {
+      commands.push(
+        {
+          id: "regenerate",
+          group: "Actions",
+          label: SHORTCUT_LABELS.regenerate,
+          icon: "refresh",
+          shortcut: shortcuts.regenerate,
+          run: regenerateLastAnswer,
+        },
+        {
+          id: "copy-last",
+          group: "Actions",
+          label: SHORTCUT_LABELS.copyLastAnswer,
+          icon: "content_copy",
+          shortcut: shortcuts.copyLastAnswer,
+          run: copyLastAnswer,
+        }
+      );
+    }
+    if (activeConversation) {
+      (
+        [
+          ["markdown", "Export conversation as Markdown", "description"],
+          ["html", "Export conversation as HTML", "code"],
+          ["print", "Print or save conversation as PDF", "print"],
+        ] as const
+      ).forEach(([format, label, icon]) =>
+        commands.push({ id: `export-${format}`, group: "Export", label, icon, run: () => exportConversation(format) })
+      );
+    }
+    commands.push({ id: "export-backup", group: "Export", label: "Export backup", icon: "download", run: exportBackup });
+    (
+      [
+        ["keys", "Keys"],
+        ["models", "Models"],
+        ["mcp", "MCP"],
+        ["prompts", "Prompts"],
+        ["shortcuts", "Shortcuts"],
+        ["appearance", "Appearance"],
+        ["data", "Data"],
+      ] as const
+    ).forEach(([tab, label]) =>
+      commands.push({ id: `settings-${tab}`, group: "Settings", label: `Open ${label} settings`, icon: "settings", run: () => openSettingsTab(tab) })
+    );
+    availableModels.forEach((model) =>
+      commands.push({
+        id: `model-${model.id}`,
+        group: "Models",
+        label: compareMode
+          ? `${selectedCompareModels.includes(model.id) ? "Remove" : "Add"} ${model.label} ${selectedCompareModels.includes(model.id) ? "from" : "to"} comparison`
+          : `Use ${model.label}`,
+        icon: model.id === selectedModel?.id && !compareMode ? "check" : "smart_toy",
+        keywords: `model ${PROVIDERS[model.providerId].name}`,
+        run: () => {
+          if (!compareMode) {
+            setSelectedModelId(model.id);
+            return;
+          }
+          const next = selectedCompareModels.includes(model.id)
+            ? selectedCompareModels.filter((id) => id !== model.id)
+            : [...selectedCompareModels, model.id];
+          setSelectedCompareModels(next.length ? next : [model.id]);
+        },
+      })
+    );
+    [...conversations]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .forEach((conversation) =>
+        commands.push({
+          id: `conversation-${conversation.id}`,
+          group: "Conversations",
+          label: conversation.title,
+          icon: conversation.id === activeConversationId ? "chat" : "chat_bubble",
+          keywords: projects.find((project) => project.id === conversation.projectId)?.name,
+          run: () => setActiveConversationId(conversation.id),
+        })
+      );
+    return commands;
   }
 
   return (
@@ -1131,12 +4742,23 @@ export default function App() {
           <div className="relative group">
             <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-[18px] text-[var(--text-icon)] group-focus-within:text-[var(--text-primary)] transition-colors">search</span>
             <input
-              className="w-full bg-[var(--accent-soft)] border-none rounded-xl py-2 pl-10 pr-4 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:ring-1 focus:ring-[var(--border-subtle)] transition-all"
+              className="w-full bg-[var(--accent-soft)] border-none rounded-xl py-2 pl-10 pr-10 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:ring-1 focus:ring-[var(--border-subtle)] transition-all"
               placeholder="Search"
               type="text"
               value={search}
               onChange={(event) => setSearch(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") setShowMessageSearch(true);
+              }}
             />
+            <button
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors"
+              onClick={() => setShowMessageSearch(true)}
+              title="Search inside messages"
+              aria-label="Search inside messages"
+            >
+              <span className="material-symbols-outlined text-[18px]">manage_search</span>
+            </button>
           </div>
         </div>
         <div className="flex-1 overflow-y-auto no-scrollbar px-3 space-y-8 mt-2">
@@ -1185,6 +4807,20 @@ export default function App() {
                           {project.name}
                         </span>
                       )}
+                      <button
+                        className="opacity-0 group-hover:opacity-100 text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-all shrink-0"
+                        onClick={(event) => { event.stopPropagation(); createNewChat(project.id); }}
+                        title="New chat in this project"
+                      >
+                        <span className="material-symbols-outlined text-[16px]">add</span>
+                      </button>
+                      <button
+                        className="opacity-0 group-hover:opacity-100 text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-all shrink-0"
+                        onClick={(event) => { event.stopPropagation(); setProjectSettingsId(project.id); }}
+                        title="Project settings"
+                      >
+                        <span className="material-symbols-outlined text-[16px]">tune</span>
+                      </button>
                       <button
                         className="opacity-0 group-hover:opacity-100 text-[var(--text-icon)] hover:text-red-400 transition-all shrink-0"
                         onClick={(event) => { event.stopPropagation(); deleteProject(project.id); }}
@@ -1249,7 +4885,7 @@ export default function App() {
               <p className="text-[10px] font-bold text-[var(--text-secondary)] uppercase tracking-[0.1em]">Conversations</p>
               <button
                 className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors"
-                onClick={createNewChat}
+                onClick={() => createNewChat()}
               >
                 <span className="material-symbols-outlined text-[16px]">add</span>
               </button>
@@ -1313,6 +4949,13 @@ export default function App() {
             <span className="material-symbols-outlined text-[20px]">settings</span>
             <span>Settings</span>
           </button>
+          <button
+            className="w-full flex items-center gap-3 px-3 py-2 text-sm text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] rounded-lg transition-colors"
+            onClick={() => setShowStats(true)}
+          >
+            <span className="material-symbols-outlined text-[20px]">leaderboard</span>
+            <span>Stats</span>
+          </button>
         </div>
         </aside>
       ) : null}
@@ -1323,6 +4966,31 @@ export default function App() {
           isMatrixTheme ? "matrix-surface" : "bg-[var(--bg-main)]"
         )}
       >
+        {storageError ? (
+          <div
+            role="alert"
+            className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-start gap-3 max-w-xl rounded-2xl border border-red-500/40 bg-[var(--surface-1)] px-4 py-3 text-sm text-[var(--text-primary)] shadow-2xl"
+          >
+            <span className="material-symbols-outlined text-[18px] text-red-400">error</span>
+            <span className="flex-1">{storageError}</span>
+            <button
+              className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors"
+              onClick={() => {
+                conversationStorage.clearError();
+                settingsStorage.clearError();
+                projectStorage.clearError();
+              }}
+              aria-label="Dismiss storage error"
+            >
+              <span className="material-symbols-outlined text-[18px]">close</span>
+            </button>
+          </div>
+        ) : null}
+        {activeMessages.length ? (
+          <div className="absolute top-4 right-4 z-20">
+            <ConversationExportMenu onExport={exportConversation} />
+          </div>
+        ) : null}
         {!showSidebar ? (
           <button
             className="absolute top-4 left-4 z-20 flex items-center gap-2 rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] px-3 py-2 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:bg-[var(--hover-bg)] transition-colors"
@@ -1352,194 +5020,56 @@ export default function App() {
           </div>
         ) : null}
         <div className="flex-1 overflow-y-auto pt-8 pb-40">
-          <div className="max-w-3xl mx-auto px-6 space-y-12">
-            {activeConversation?.messages.length ? (
+          <div className="px-6 space-y-12">
+            {activeMessages.length ? (
               <>
-                {activeConversation.messages.map((message) => (
-                  <div
-                    key={message.id}
-                    className={cn("flex", message.role === "user" ? "flex-col items-end" : "flex gap-6")}
-                  >
-                  {message.role === "assistant" ? (
-                    <div className="size-8 rounded-full border border-[var(--border-subtle)] bg-white/5 flex items-center justify-center shrink-0 mt-1">
-                      <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 48 48" xmlns="http://www.w3.org/2000/svg">
-                        <path d="M4 4H17.3334V17.3334H30.6666V30.6666H44V44H4V4Z" fill="currentColor"></path>
-                      </svg>
-                    </div>
-                  ) : null}
-                  <div className={cn(message.role === "assistant" ? "flex-1 space-y-4 max-w-[90%]" : "max-w-[85%]")}
-                  >
-                    <div
-                      className={cn(
-                        message.role === "user"
-                          ? "bg-[var(--surface-2)] px-5 py-3 rounded-2xl text-[var(--text-primary)] text-[15px] leading-relaxed border border-[var(--border-subtle)]"
-                          : "text-[var(--text-primary)] text-[16px] leading-relaxed space-y-6"
-                      )}
-                    >
-                      {message.role === "assistant" ? (
-                        <div className="space-y-4">
-                          <div className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
-                            <span className="uppercase tracking-[0.2em] text-[10px]">{message.providerId}</span>
-                            {message.modelId ? (
-                              <span className="px-2 py-0.5 rounded-full bg-[var(--accent-soft)] border border-[var(--border-subtle)]">
-                                {getModelLabel(message.modelId, allModels)}
-                              </span>
-                            ) : null}
-                            {message.isStreaming ? <span className="text-[10px] text-[var(--text-secondary)]">Streaming...</span> : null}
-                          </div>
-                          <ReactMarkdown
-                            remarkPlugins={[remarkGfm]}
-                            className="answer-markdown prose max-w-none dark:prose-invert prose-p:leading-relaxed prose-p:my-4 prose-ol:pl-5 prose-ul:pl-5 prose-li:my-2 prose-li:marker:text-[var(--text-secondary)] prose-hr:my-6 prose-strong:text-[var(--text-primary)] prose-code:text-[var(--text-primary)] prose-code:bg-[var(--accent-soft)] prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded"
-                            components={{
-                              p({ children, ...props }) {
-                                return <div {...props}>{children}</div>;
-                              },
-                              code({ className, children, node, ...props }) {
-                                const content = String(children).replace(/\n$/, "");
-                                if (!className) {
-                                  return (
-                                    <code className={className} {...props}>
-                                      {children}
-                                    </code>
-                                  );
-                                }
-                                const meta = (node as { data?: { meta?: string } })?.data?.meta;
-                                const { language, filename } = parseCodeMeta(className, meta);
-                                return (
-                                  <div className="my-5 rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-2)] overflow-hidden">
-                                    <div className="flex items-center justify-between px-3 py-2 text-xs text-[var(--text-secondary)] border-b border-[var(--border-subtle)] bg-[var(--accent-soft)]">
-                                      <div className="flex items-center gap-2">
-                                        <span className="uppercase tracking-[0.2em] text-[10px]">{language || "code"}</span>
-                                        {filename ? (
-                                          <span className="px-2 py-0.5 rounded-full bg-[var(--hover-bg)] text-[10px] text-[var(--text-muted)]">
-                                            {filename}
-                                          </span>
-                                        ) : null}
-                                      </div>
-                                      <div className="flex items-center gap-2">
-                                        {filename ? (
-                                          <button
-                                            className="px-2 py-1 rounded-lg bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-[10px]"
-                                            onClick={() => downloadCode(filename, content)}
-                                            type="button"
-                                          >
-                                            Download
-                                          </button>
-                                        ) : null}
-                                        <button
-                                          className="px-2 py-1 rounded-lg bg-[var(--hover-bg)] hover:bg-[var(--active-bg)] text-[10px]"
-                                          onClick={() => copyToClipboard(content)}
-                                          type="button"
-                                        >
-                                          Copy
-                                        </button>
-                                      </div>
-                                    </div>
-                                    <pre className="p-4 overflow-x-auto text-sm text-[var(--text-primary)]">
-                                      <code className={className} {...props}>
-                                        {content}
-                                      </code>
-                                    </pre>
-                                  </div>
-                                );
-                              },
-                            }}
-                          >
-                            {message.content || ""}
-                          </ReactMarkdown>
-                          {message.sources && message.sources.length > 0 ? (
-                            <div className="mt-4 rounded-2xl border border-[var(--border-subtle)] bg-[var(--surface-2)] px-4 py-3">
-                              <div className="text-[10px] uppercase tracking-[0.2em] text-[var(--text-secondary)]">
-                                Sources
-                              </div>
-                              <div className="mt-2 grid grid-cols-1 gap-2 md:grid-cols-2">
-                                {message.sources.map((source) => {
-                                  let host = "";
-                                  try {
-                                    host = new URL(source.url).hostname.replace(/^www\./, "");
-                                  } catch {
-                                    host = source.url;
-                                  }
-                                  return (
-                                    <a
-                                      key={source.url}
-                                      href={source.url}
-                                      target="_blank"
-                                      rel="noreferrer"
-                                      className="rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] px-3 py-2 text-left transition-colors hover:bg-[var(--hover-bg)]"
-                                    >
-                                      <div className="text-[11px] text-[var(--text-secondary)]">{host}</div>
-                                      <div className="text-sm text-[var(--text-primary)] break-words">
-                                        {source.title || source.url}
-                                      </div>
-                                    </a>
-                                  );
-                                })}
-                              </div>
-                            </div>
-                          ) : null}
-                          {message.images && message.images.length > 0 ? (
-                            <div className="flex flex-wrap gap-3 mt-4">
-                              {message.images.map((url, index) => (
-                                <a
-                                  key={index}
-                                  href={url}
-                                  target="_blank"
-                                  rel="noopener noreferrer"
-                                  className="block"
-                                >
-                                  <img
-                                    src={url}
-                                    alt={`Generated image ${index + 1}`}
-                                    className="rounded-2xl border border-[var(--border-subtle)] max-w-full max-h-[512px] object-contain"
-                                  />
-                                </a>
-                              ))}
-                            </div>
-                          ) : null}
-                        </div>
-                      ) : (
-                        <>
-                          {message.attachments && message.attachments.length > 0 ? (
-                            <div className="flex flex-wrap gap-2 mb-2">
-                              {message.attachments.map((att, index) =>
-                                att.type.startsWith("image/") ? (
-                                  <img key={index} src={att.dataUrl} alt={att.name} className="h-40 max-w-full object-contain rounded-xl" />
-                                ) : (
-                                  <div key={index} className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-[var(--accent-soft)] border border-[var(--border-subtle)]">
-                                    <span className="material-symbols-outlined text-[16px] text-[var(--text-icon)]">description</span>
-                                    <span className="text-xs text-[var(--text-muted)]">{att.name}</span>
-                                  </div>
-                                )
+                {activeConversation?.contextSummary &&
+                summarizedTurnEnd(activeMessages, activeConversation.contextSummary.throughMessageId) !== -1 ? (
+                  <div className="max-w-3xl mx-auto">
+                    <ContextSummaryCard
+                      summary={activeConversation.contextSummary}
+                      coveredMessages={summarizedTurnEnd(activeMessages, activeConversation.contextSummary.throughMessageId)}
+                      onClear={() =>
+                        updateConversation(activeConversation.id, (conversation) => ({
+                          ...conversation,
+                          contextSummary: undefined,
+                        }))
+                      }
+                    />
+                  </div>
+                ) : null}
+                {groupTurns(activeMessages).map((turn) => (
+                  <div key={turn.user.id} className="space-y-12">
+                    <div className="max-w-3xl mx-auto">{renderMessage(turn.user)}</div>
+                    {turn.responses.length > 1 ? (
+                      <div className="overflow-x-auto no-scrollbar">
+                        <div
+                          className="grid gap-4 max-w-6xl mx-auto"
+                          style={{ gridTemplateColumns: `repeat(${turn.responses.length}, minmax(280px, 1fr))` }}
+                        >
+                          {turn.responses.map((response) => (
+                            <div
+                              key={response.id}
+                              className={cn(
+                                "min-w-0 rounded-2xl border bg-[var(--surface-1)] p-4 transition-opacity",
+                                turn.user.selectedResponseId === response.id
+                                  ? "border-[var(--text-primary)]"
+                                  : "border-[var(--border-subtle)]",
+                                turn.user.selectedResponseId && turn.user.selectedResponseId !== response.id && "opacity-60"
                               )}
+                            >
+                              {renderMessage(response, true)}
                             </div>
-                          ) : null}
-                          {message.content}
-                        </>
-                      )}
-                    </div>
-                    {message.role === "assistant" ? (
-                      <div className="flex items-center gap-4 pt-4 border-t border-[var(--border-subtle)]">
-                        <button
-                          className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors"
-                          onClick={() => copyToClipboard(message.content)}
-                        >
-                          <span className="material-symbols-outlined text-[18px]">content_copy</span>
-                        </button>
-                        <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors">
-                          <span className="material-symbols-outlined text-[18px]">refresh</span>
-                        </button>
-                        <div className="flex items-center gap-2 ml-auto">
-                          <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors">
-                            <span className="material-symbols-outlined text-[18px]">thumb_up</span>
-                          </button>
-                          <button className="text-[var(--text-icon)] hover:text-[var(--text-primary)] transition-colors">
-                            <span className="material-symbols-outlined text-[18px]">thumb_down</span>
-                          </button>
+                          ))}
                         </div>
                       </div>
-                    ) : null}
-                  </div>
+                    ) : (
+                      turn.responses.map((response) => (
+                        <div key={response.id} className="max-w-3xl mx-auto">
+                          {renderMessage(response)}
+                        </div>
+                      ))
+                    )}
                   </div>
                 ))}
                 <div className="h-36" />
@@ -1552,15 +5082,46 @@ export default function App() {
 
         <footer className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-[var(--bg-main)] via-[var(--bg-main)] to-transparent pointer-events-none">
           <div className="max-w-3xl mx-auto pointer-events-auto">
-            <div className="glass-chat-bar rounded-[26px] p-2 flex flex-col shadow-2xl transition-all focus-within:ring-1 focus-within:ring-[var(--border-subtle)]">
+            <div className="relative glass-chat-bar rounded-[26px] p-2 flex flex-col shadow-2xl transition-all focus-within:ring-1 focus-within:ring-[var(--border-subtle)]">
+              {templateMatches.length > 0 ? (
+                <div className="absolute bottom-full left-0 right-0 mb-2 p-1.5 bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-2xl shadow-2xl z-30">
+                  <p className="px-3 pt-1 pb-1.5 text-[11px] text-[var(--text-secondary)]">Prompt templates</p>
+                  {templateMatches.map((template, index) => (
+                    <button
+                      key={template.id}
+                      className={cn(
+                        "w-full text-left px-3 py-2 rounded-xl transition-colors",
+                        index === templateHighlight ? "bg-[var(--active-bg)]" : "hover:bg-[var(--hover-bg)]"
+                      )}
+                      onMouseEnter={() => setTemplateHighlight(index)}
+                      onMouseDown={(event) => event.preventDefault()}
+                      onClick={() => insertTemplate(template)}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-[var(--text-primary)] truncate">{template.name}</span>
+                        {template.projectId ? (
+                          <span className="material-symbols-outlined text-[14px] text-[var(--text-icon)]">folder</span>
+                        ) : null}
+                      </div>
+                      <p className="text-xs text-[var(--text-secondary)] truncate">{template.content}</p>
+                    </button>
+                  ))}
+                </div>
+              ) : null}
               <input
                 ref={fileInputRef}
                 type="file"
                 className="hidden"
                 multiple
-                accept="image/*,.txt,.md,.csv,.json,.js,.ts,.py,.html,.css"
+                accept="image/*,.pdf,.txt,.md,.csv,.json,.js,.ts,.py,.html,.css"
                 onChange={handleFileSelect}
               />
+              {unsupportedAttachmentWarning ? (
+                <div className="flex items-center gap-2 px-4 pt-3 text-xs text-amber-500">
+                  <span className="material-symbols-outlined text-[16px]">warning</span>
+                  <span>{unsupportedAttachmentWarning}</span>
+                </div>
+              ) : null}
               {attachments.length > 0 ? (
                 <div className="flex flex-wrap gap-2 px-4 pt-3 pb-1">
                   {attachments.map((att, index) => (
@@ -1589,8 +5150,28 @@ export default function App() {
                 placeholder="Message Apeiron..."
                 rows={1}
                 value={input}
-                onChange={(event) => setInput(event.target.value)}
+                onChange={(event) => {
+                  setInput(event.target.value);
+                  setTemplateHighlight(0);
+                }}
                 onKeyDown={(event) => {
+                  if (templateMatches.length > 0) {
+                    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+                      event.preventDefault();
+                      const step = event.key === "ArrowDown" ? 1 : templateMatches.length - 1;
+                      setTemplateHighlight((templateHighlight + step) % templateMatches.length);
+                      return;
+                    }
+                    if ((event.key === "Enter" && !event.shiftKey) || event.key === "Tab") {
+                      event.preventDefault();
+                      insertTemplate(templateMatches[Math.min(templateHighlight, templateMatches.length - 1)]);
+                      return;
+                    }
+                    if (event.key === "Escape") {
+                      setDismissedSlashInput(input);
+                      return;
+                    }
+                  }
                   if (event.key === "Enter" && !event.shiftKey) {
                     event.preventDefault();
                     if ((input.trim() || attachments.length > 0) && (availableModels.length > 0 || isStreaming)) {
@@ -1620,6 +5201,20 @@ export default function App() {
                   </button>
                 </div>
                 <div className="flex items-center gap-3">
+                  <ConversationParamsMenu
+                    value={activeConversation?.params ?? {}}
+                    inherited={
+                      selectedModel && !compareMode
+                        ? resolveGenerationParams(
+                            selectedModel.defaultParams,
+                            settings.modelParams?.[selectedModel.id],
+                            activeProject?.params
+                          )
+                        : activeProject?.params ?? {}
+                    }
+                    onChange={setConversationParams}
+                    disabled={!activeConversation}
+                  />
                   <button
                     type="button"
                     className={cn(
@@ -1639,6 +5234,21 @@ export default function App() {
                   >
                     <span className="material-symbols-outlined text-[18px] leading-none">language</span>
                   </button>
+                  <button
+                    type="button"
+                    className={cn(
+                      "size-8 flex items-center justify-center rounded-full border transition-colors",
+                      toolsEnabled
+                        ? "bg-white text-black border-white"
+                        : "bg-[var(--accent-soft)] text-[var(--text-muted)] border-[var(--border-subtle)] hover:bg-[var(--hover-bg)]"
+                    )}
+                    onClick={() => setToolsEnabled((prev) => !prev)}
+                    title={`Tools: ${BUILTIN_TOOLS.map((tool) => tool.name).join(", ")}`}
+                    aria-pressed={toolsEnabled}
+                    aria-label="Toggle tools"
+                  >
+                    <span className="material-symbols-outlined text-[18px] leading-none">build</span>
+                  </button>
                   <button
                     type="button"
                     className={cn(
@@ -1684,6 +5294,56 @@ export default function App() {
         </footer>
       </main>
 
+      {showStats ? (
+        <StatsDialog
+          conversations={conversations}
+          projects={projects}
+          models={allModels}
+          onClose={() => setShowStats(false)}
+        />
+      ) : null}
+
+      {fillingTemplate ? (
+        <TemplateFillDialog
+          template={fillingTemplate}
+          onInsert={(text) => {
+            setInput(text);
+            setFillingTemplate(null);
+            textareaRef.current?.focus();
+          }}
+          onClose={() => setFillingTemplate(null)}
+        />
+      ) : null}
+
+      {showMessageSearch ? (
+        <MessageSearchDialog
+          conversations={conversations}
+          projects={projects}
+          models={allModels}
+          initialQuery={search}
+          onOpen={openMessage}
+          onClose={() => setShowMessageSearch(false)}
+        />
+      ) : null}
+
+      {projectSettingsId && projects.some((project) => project.id === projectSettingsId) ? (
+        <ProjectSettingsDialog
+          project={projects.find((project) => project.id === projectSettingsId)!}
+          models={enabledModels}
+          inheritedParams={
+            selectedModel ? resolveGenerationParams(selectedModel.defaultParams, settings.modelParams?.[selectedModel.id]) : {}
+          }
+          documents={projectDocuments.documents.filter((document) => document.projectId === projectSettingsId)}
+          documentsStatus={{ indexing: projectDocuments.indexing, error: projectDocuments.error }}
+          embeddingModel={embeddingConfig ? embeddingModelId(embeddingConfig.providerId) : null}
+          onChange={updateProject}
+          onAddDocuments={(files) => projectDocuments.addDocuments(projectSettingsId, files, embeddingConfig)}
+          onRemoveDocument={(documentId) => projectDocuments.removeDocuments([documentId])}
+          onReindexDocuments={() => projectDocuments.reindexProject(projectSettingsId, embeddingConfig)}
+          onClose={() => setProjectSettingsId(null)}
+        />
+      ) : null}
+
       {showSettings ? (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50">
           <div className="w-full max-w-2xl bg-[var(--surface-1)] border border-[var(--border-subtle)] rounded-3xl p-6 shadow-2xl">
@@ -1701,7 +5361,11 @@ export default function App() {
               {[
                 { id: "keys", label: "Keys" },
                 { id: "models", label: "Models" },
+                { id: "mcp", label: "MCP" },
+                { id: "prompts", label: "Prompts" },
+                { id: "shortcuts", label: "Shortcuts" },
                 { id: "appearance", label: "Appearance" },
+                { id: "data", label: "Data" },
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -1747,6 +5411,79 @@ export default function App() {
                     onChange={(event) => setSettings({ ...settings, systemPrompt: event.target.value })}
                   />
                 </div>
+
+                <div className="mt-6">
+                  <label className="text-sm text-[var(--text-muted)]" htmlFor="context-strategy">
+                    When a conversation outgrows the context window
+                  </label>
+                  <div className="mt-2 flex items-center gap-2">
+                    <select
+                      id="context-strategy"
+                      className="flex-1 bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+                      value={settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY}
+                      onChange={(event) =>
+                        setSettings({ ...settings, contextStrategy: event.target.value as ContextStrategy })
+                      }
+                    >
+                      {CONTEXT_STRATEGIES.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {(settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY) === "sliding_window" ? (
+                      <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+                        Keep
+                        <input
+                          type="number"
+                          min={1}
+                          className="w-16 bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-2 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+                          value={settings.contextWindowTurns ?? DEFAULT_WINDOW_TURNS}
+                          onChange={(event) =>
+                            setSettings({
+                              ...settings,
+                              contextWindowTurns: Math.max(1, Math.round(Number(event.target.value)) || DEFAULT_WINDOW_TURNS),
+                            })
+                          }
+                        />
+                        turns
+                      </label>
+                    ) : null}
+                  </div>
+                  <p className="mt-2 text-xs text-[var(--text-secondary)]">
+                    {CONTEXT_STRATEGIES.find((option) => option.id === (settings.contextStrategy ?? DEFAULT_CONTEXT_STRATEGY))?.description}
+                  </p>
+                </div>
+
+                <div className="mt-6">
+                  <label className="text-sm text-[var(--text-muted)]" htmlFor="embedding-provider">
+                    Project document search
+                  </label>
+                  <select
+                    id="embedding-provider"
+                    className="mt-2 w-full bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+                    value={settings.embeddingProvider ?? ""}
+                    onChange={(event) =>
+                      setSettings({
+                        ...settings,
+                        embeddingProvider: (event.target.value || undefined) as EmbeddingProviderId | undefined,
+                      })
+                    }
+                  >
+                    <option value="">Keywords only (BM25, stays in the browser)</option>
+                    {(Object.keys(EMBEDDING_MODELS) as EmbeddingProviderId[]).map((providerId) => (
+                      <option key={providerId} value={providerId}>
+                        Keywords + {PROVIDERS[providerId].name} embeddings ({EMBEDDING_MODELS[providerId]})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-2 text-xs text-[var(--text-secondary)]">
+                    Embeddings send document text to the provider when documents are added, and each message when searching.
+                    {settings.embeddingProvider && !settings.keys[settings.embeddingProvider]
+                      ? ` Add a ${PROVIDERS[settings.embeddingProvider].name} key to use them.`
+                      : ""}
+                  </p>
+                </div>
               </>
             ) : null}
 
@@ -1756,97 +5493,177 @@ export default function App() {
                   Choose which models appear in the selector. Only models with an API key will show in the chat.
                 </p>
                 <div className="flex gap-2">
+                  <select
+                    className="bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
+                    value={customModelProvider}
+                    onChange={(event) => setCustomModelProvider(event.target.value as ProviderId)}
+                    aria-label="Custom model provider"
+                  >
+                    {Object.values(PROVIDERS).map((provider) => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </option>
+                    ))}
+                  </select>
                   <input
                     className="flex-1 bg-[var(--accent-soft)] border border-[var(--border-subtle)] rounded-xl px-3 py-2 text-sm text-[var(--text-primary)] placeholder:text-[var(--text-secondary)] focus:ring-1 focus:ring-[var(--border-subtle)]"
-                    placeholder="e.g. google/gemini-2.5-pro or openai/gpt-5"
+                    placeholder={CUSTOM_MODEL_PLACEHOLDERS[customModelProvider]}
                     value={customModelInput}
                     onChange={(event) => setCustomModelInput(event.target.value)}
                     onKeyDown={(event) => {
-                      if (event.key === "Enter") {
-                        const tag = customModelInput.trim();
-                        if (!tag) return;
-                        const fullId = `openrouter/${tag}`;
-                        if (allModels.some((m) => m.id === fullId)) { setCustomModelInput(""); return; }
-                        const label = tag.split("/").pop()?.replace(/[-_]/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()) ?? tag;
-                        const newModel: ModelItem = { id: fullId, label, providerId: "openrouter" };
-                        setSettings({
-                          ...settings,
-                          customModels: [...(settings.customModels ?? []), newModel],
-                          enabledModels: [...settings.enabledModels, fullId],
-                        });
-                        setCustomModelInput("");
-                      }
+                      if (event.key === "Enter") addCustomModel();
                     }}
                   />
                   <button
                     className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-slate-200 transition-colors"
-                    onClick={() => {
-                      const tag = customModelInput.trim();
-                      if (!tag) return;
-                      const fullId = `openrouter/${tag}`;
-                      if (allModels.some((m) => m.id === fullId)) { setCustomModelInput(""); return; }
-                      const label = tag.split("/").pop()?.replace(/[-_]/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()) ?? tag;
-                      const newModel: ModelItem = { id: fullId, label, providerId: "openrouter" };
-                      setSettings({
-                        ...settings,
-                        customModels: [...(settings.customModels ?? []), newModel],
-                        enabledModels: [...settings.enabledModels, fullId],
-                      });
-                      setCustomModelInput("");
-                    }}
+                    onClick={addCustomModel}
                   >
                     <span className="material-symbols-outlined text-[18px]">add</span>
                   </button>
                 </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-[var(--text-secondary)]">Load models from:</span>
+                  <button
+                    className={cn(
+                      "px-2.5 py-1 rounded-lg border text-xs transition-colors",
+                      showOpenRouterBrowser
+                        ? "bg-white text-black border-white"
+                        : "border-[var(--border-subtle)] bg-[var(--accent-soft)] text-[var(--text-muted)] hover:bg-[var(--hover-bg)]"
+                    )}
+                    onClick={() => setShowOpenRouterBrowser((prev) => !prev)}
+                  >
+                    Browse OpenRouter
+                  </button>
+                  {CATALOG_PROVIDERS.map((providerId) => (
+                    <button
+                      key={providerId}
+                      className="px-2.5 py-1 rounded-lg border border-[var(--border-subtle)] bg-[var(--accent-soft)] text-xs text-[var(--text-muted)] hover:bg-[var(--hover-bg)] transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      onClick={() => loadProviderModels(providerId)}
+                      disabled={!settings.keys[providerId] || catalogStatus?.loading === providerId}
+                      title={settings.keys[providerId] ? undefined : `Add a ${PROVIDERS[providerId].name} key first`}
+                    >
+                      {catalogStatus?.loading === providerId ? "Loading..." : PROVIDERS[providerId].name}
+                    </button>
+                  ))}
+                </div>
+                {showOpenRouterBrowser ? (
+                  <OpenRouterBrowser
+                    existingIds={new Set(allModels.map((model) => model.id))}
+                    onAdd={(model) =>
+                      setSettings((prev) => ({
+                        ...prev,
+                        customModels: [...(prev.customModels ?? []), model],
+                        enabledModels: [...prev.enabledModels, model.id],
+                      }))
+                    }
+                    onCatalogLoaded={refreshOpenRouterMetadata}
+                  />
+                ) : null}
+                {catalogStatus?.text ? (
+                  <p className={cn("text-xs", catalogStatus.kind === "error" ? "text-red-400" : "text-[var(--text-secondary)]")}>
+                    {catalogStatus.text}
+                  </p>
+                ) : null}
                 <div className="grid grid-cols-1 gap-2 max-h-[320px] overflow-y-auto">
                   {allModels.map((model) => {
                     const isCustom = (settings.customModels ?? []).some((m) => m.id === model.id);
+                    const modelParams = settings.modelParams?.[model.id] ?? {};
+                    const hasParams = Object.values(modelParams).some((param) => param !== undefined);
                     return (
-                      <label
-                        key={model.id}
-                        className="flex items-center justify-between rounded-xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-3 py-2 text-sm text-[var(--text-primary)]"
-                      >
-                        <div className="flex items-center gap-2 min-w-0">
-                          <div className="min-w-0">
-                            <div className="text-[var(--text-primary)] truncate">{model.label}</div>
-                            <div className="text-[10px] text-[var(--text-secondary)] truncate">{model.id}</div>
+                      <div key={model.id} className="space-y-2">
+                        <label
+                          className="flex items-center justify-between rounded-xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-3 py-2 text-sm text-[var(--text-primary)]"
+                        >
+                          <div className="flex items-center gap-2 min-w-0">
+                            <div className="min-w-0">
+                              <div className="text-[var(--text-primary)] truncate">{model.label}</div>
+                              <div className="text-[10px] text-[var(--text-secondary)] truncate">{model.id}</div>
+                              <ModelMeta model={model} />
+                            </div>
                           </div>
-                        </div>
-                        <div className="flex items-center gap-2 shrink-0">
-                          {isCustom ? (
+                          <div className="flex items-center gap-2 shrink-0">
                             <button
-                              className="text-[var(--text-icon)] hover:text-red-400 transition-colors"
+                              className={cn(
+                                "transition-colors",
+                                hasParams ? "text-[var(--text-primary)]" : "text-[var(--text-icon)] hover:text-[var(--text-primary)]"
+                              )}
                               onClick={(event) => {
                                 event.preventDefault();
-                                setSettings({
-                                  ...settings,
-                                  customModels: (settings.customModels ?? []).filter((m) => m.id !== model.id),
-                                  enabledModels: settings.enabledModels.filter((id) => id !== model.id),
-                                });
+                                setTuningModelId((prev) => (prev === model.id ? null : model.id));
                               }}
+                              title="Generation parameters"
+                              aria-expanded={tuningModelId === model.id}
                             >
-                              <span className="material-symbols-outlined text-[16px]">delete</span>
+                              <span className="material-symbols-outlined text-[16px]">tune</span>
                             </button>
-                          ) : null}
-                          <input
-                            type="checkbox"
-                            className="size-4 rounded border-white/20 bg-transparent text-white focus:ring-white/20"
-                            checked={settings.enabledModels.includes(model.id)}
-                            onChange={(event) => {
-                              const next = event.target.checked
-                                ? [...settings.enabledModels, model.id]
-                                : settings.enabledModels.filter((id) => id !== model.id);
-                              setSettings({ ...settings, enabledModels: next });
-                            }}
-                          />
-                        </div>
-                      </label>
+                            {isCustom ? (
+                              <button
+                                className="text-[var(--text-icon)] hover:text-red-400 transition-colors"
+                                onClick={(event) => {
+                                  event.preventDefault();
+                                  setSettings({
+                                    ...settings,
+                                    customModels: (settings.customModels ?? []).filter((m) => m.id !== model.id),
+                                    enabledModels: settings.enabledModels.filter((id) => id !== model.id),
+                                  });
+                                }}
+                              >
+                                <span className="material-symbols-outlined text-[16px]">delete</span>
+                              </button>
+                            ) : null}
+                            <input
+                              type="checkbox"
+                              className="size-4 rounded border-white/20 bg-transparent text-white focus:ring-white/20"
+                              checked={settings.enabledModels.includes(model.id)}
+                              onChange={(event) => {
+                                const next = event.target.checked
+                                  ? [...settings.enabledModels, model.id]
+                                  : settings.enabledModels.filter((id) => id !== model.id);
+                                setSettings({ ...settings, enabledModels: next });
+                              }}
+                            />
+                          </div>
+                        </label>
+                        {tuningModelId === model.id ? (
+                          <div className="rounded-xl border border-[var(--border-subtle)] px-3 py-3">
+                            <GenerationParamsFields
+                              value={modelParams}
+                              inherited={model.defaultParams ?? {}}
+                              onChange={(params) => setModelParams(model.id, params)}
+                            />
+                          </div>
+                        ) : null}
+                      </div>
                     );
                   })}
                 </div>
               </div>
             ) : null}
 
+            {settingsTab === "mcp" ? (
+              <McpSettingsPanel
+                servers={settings.mcpServers ?? []}
+                states={mcp.states}
+                onChange={(mcpServers) => setSettings({ ...settings, mcpServers })}
+                onReconnect={mcp.reconnect}
+              />
+            ) : null}
+
+            {settingsTab === "prompts" ? (
+              <PromptTemplatesPanel
+                templates={settings.promptTemplates ?? []}
+                projects={projects}
+                onChange={(promptTemplates) => setSettings({ ...settings, promptTemplates })}
+              />
+            ) : null}
+
+            {settingsTab === "shortcuts" ? (
+              <ShortcutSettingsPanel
+                shortcuts={settings.shortcuts}
+                onChange={(shortcuts) => setSettings({ ...settings, shortcuts })}
+              />
+            ) : null}
+
             {settingsTab === "appearance" ? (
               <div className="space-y-4">
                 <div className="space-y-2">
@@ -1913,6 +5730,77 @@ export default function App() {
               </div>
             ) : null}
 
+            {settingsTab === "data" ? (
+              <div className="space-y-4">
+                <div className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-4 py-3 space-y-3">
+                  <div>
+                    <p className="text-sm text-[var(--text-primary)]">Export</p>
+                    <p className="text-xs text-[var(--text-secondary)]">
+                      Download every conversation, project and setting as one JSON file.
+                    </p>
+                  </div>
+                  <label className="flex items-center gap-2 text-xs text-[var(--text-muted)]">
+                    <input
+                      type="checkbox"
+                      className="size-4 rounded border-white/20 bg-transparent text-white focus:ring-white/20"
+                      checked={exportIncludesKeys}
+                      onChange={(event) => setExportIncludesKeys(event.target.checked)}
+                    />
+                    Include API keys
+                  </label>
+                  <button
+                    className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-slate-200 transition-colors"
+                    onClick={exportBackup}
+                  >
+                    Export backup
+                  </button>
+                </div>
+
+                <div className="rounded-2xl border border-[var(--border-subtle)] bg-[var(--accent-soft)] px-4 py-3 space-y-3">
+                  <div>
+                    <p className="text-sm text-[var(--text-primary)]">Import</p>
+                    <p className="text-xs text-[var(--text-secondary)]">
+                      Merge keeps what is here and overwrites items with the same id. Replace discards current conversations and projects.
+                    </p>
+                  </div>
+                  <div className="flex items-center rounded-xl border border-[var(--border-subtle)] bg-[var(--surface-1)] p-1 w-fit">
+                    {(["merge", "replace"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        className={cn(
+                          "px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors",
+                          importMode === mode
+                            ? "bg-[var(--text-primary)] text-[var(--surface-1)]"
+                            : "text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                        )}
+                        onClick={() => setImportMode(mode)}
+                      >
+                        {mode === "merge" ? "Merge" : "Replace"}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    ref={importInputRef}
+                    type="file"
+                    className="hidden"
+                    accept="application/json,.json"
+                    onChange={handleImportFile}
+                  />
+                  <button
+                    className="px-3 py-2 rounded-xl bg-white text-black text-sm font-semibold hover:bg-slate-200 transition-colors"
+                    onClick={() => { setImportStatus(null); importInputRef.current?.click(); }}
+                  >
+                    Import backup
+                  </button>
+                  {importStatus ? (
+                    <p className={cn("text-xs", importStatus.kind === "error" ? "text-red-400" : "text-[var(--text-secondary)]")}>
+                      {importStatus.text}
+                    </p>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+
             <div className="mt-6 flex items-center justify-between">
               <p className="text-xs text-[var(--text-secondary)]">
                 For maximum security, use a backend proxy in production. Client-only keys are visible to users.
@@ -1927,6 +5815,10 @@ export default function App() {
           </div>
         </div>
       ) : null}
+
+      {showCommandPalette ? (
+        <CommandPalette commands={paletteCommands()} onClose={() => setShowCommandPalette(false)} />
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,39 @@
+import type { Attachment } from "./types";
+
+export type AttachmentKind = "image" | "pdf" | "text" | "other";
+
+// Browsers report some source files with unhelpful types (".ts" comes through
+// as "video/mp2t"), so the extension wins for files we know are text.
+const TEXT_EXTENSIONS = /\.(txt|md|csv|json|js|jsx|ts|tsx|py|html|css|xml|yaml|yml)$/i;
+
+export function getAttachmentKind(attachment: Attachment): AttachmentKind {
+  if (TEXT_EXTENSIONS.test(attachment.name)) return "text";
+  if (attachment.type.startsWith("image/")) return "image";
+  if (attachment.type === "application/pdf") return "pdf";
+  if (!attachment.type || attachment.type.startsWith("text/") || /json|javascript|typescript|xml|csv/.test(attachment.type)) {
+    return "text";
+  }
+  return "other";
+}
+
+export function getAttachmentMimeType(attachment: Attachment) {
+  return attachment.dataUrl.match(/^data:([^;,]*)/)?.[1] || attachment.type || "application/octet-stream";
+}
+
+export function getAttachmentBase64(attachment: Attachment) {
+  return attachment.dataUrl.split(",")[1] ?? "";
+}
+
+/** Decodes a text attachment as UTF-8 (plain `atob` mangles anything outside Latin-1). */
+export function decodeTextAttachment(attachment: Attachment) {
+  const binary = atob(getAttachmentBase64(attachment));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+export function describeAttachmentKind(kind: AttachmentKind) {
+  if (kind === "image") return "image";
+  if (kind === "pdf") return "PDF";
+  if (kind === "text") return "text file";
+  return "file";
+}
@@ -0,0 +1,225 @@
+import { PROVIDERS, type ProviderId } from "./providers";
+import type { Conversation, Message, Project, Settings } from "./types";
+
+export const BACKUP_FORMAT = "apeiron-backup";
+export const BACKUP_VERSION = 1;
+
+export type BackupBundle = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  conversations: Conversation[];
+  projects: Project[];
+  settings: Partial<Settings>;
+};
+
+export type ImportMode = "merge" | "replace";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function validateAttachment(value: unknown, path: string) {
+  if (!isRecord(value)) throw new Error(`${path} is not an object.`);
+  for (const field of ["name", "type", "dataUrl"]) {
+    if (typeof value[field] !== "string") throw new Error(`${path}.${field} must be a string.`);
+  }
+}
+
+function validateImages(value: unknown, path: string) {
+  if (value === undefined) return;
+  if (!Array.isArray(value) || value.some((image) => typeof image !== "string")) {
+    throw new Error(`${path} must be a list of image URLs.`);
+  }
+}
+
+function validateMessage(value: unknown, path: string): Message {
+  if (!isRecord(value)) throw new Error(`${path} is not an object.`);
+  if (typeof value.id !== "string") throw new Error(`${path}.id must be a string.`);
+  if (value.role !== "user" && value.role !== "assistant") {
+    throw new Error(`${path}.role must be "user" or "assistant".`);
+  }
+  if (typeof value.content !== "string") throw new Error(`${path}.content must be a string.`);
+  if (typeof value.createdAt !== "number") throw new Error(`${path}.createdAt must be a number.`);
+  if (value.providerId !== undefined && (typeof value.providerId !== "string" || !(value.providerId in PROVIDERS))) {
+    throw new Error(`${path}.providerId "${String(value.providerId)}" is not a known provider.`);
+  }
+  if (value.attachments !== undefined) {
+    if (!Array.isArray(value.attachments)) throw new Error(`${path}.attachments must be a list.`);
+    value.attachments.forEach((attachment, index) => validateAttachment(attachment, `${path}.attachments[${index}]`));
+  }
+  validateImages(value.images, `${path}.images`);
+  if (value.versions !== undefined) {
+    if (!Array.isArray(value.versions)) throw new Error(`${path}.versions must be a list.`);
+    value.versions.forEach((version, index) => {
+      if (!isRecord(version)) throw new Error(`${path}.versions[${index}] is not an object.`);
+      validateImages(version.images, `${path}.versions[${index}].images`);
+    });
+  }
+  // A stream that was running at export time can never finish after import
+  return { ...(value as Message), isStreaming: false };
+}
+
+function validateConversation(value: unknown, index: number): Conversation {
+  const path = `conversations[${index}]`;
+  if (!isRecord(value)) throw new Error(`${path} is not an object.`);
+  if (typeof value.id !== "string") throw new Error(`${path}.id must be a string.`);
+  if (typeof value.title !== "string") throw new Error(`${path}.title must be a string.`);
+  if (!Array.isArray(value.messages)) throw new Error(`${path}.messages must be a list.`);
+  return {
+    ...(value as Conversation),
+    messages: value.messages.map((message, messageIndex) => validateMessage(message, `${path}.messages[${messageIndex}]`)),
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : Date.now(),
+  };
+}
+
+function validateProject(value: unknown, index: number): Project {
+  const path = `projects[${index}]`;
+  if (!isRecord(value)) throw new Error(`${path} is not an object.`);
+  if (typeof value.id !== "string") throw new Error(`${path}.id must be a string.`);
+  if (typeof value.name !== "string") throw new Error(`${path}.name must be a string.`);
+  if (value.modelIds !== undefined && !Array.isArray(value.modelIds)) throw new Error(`${path}.modelIds must be a list.`);
+  if (value.files !== undefined) {
+    if (!Array.isArray(value.files)) throw new Error(`${path}.files must be a list.`);
+    value.files.forEach((file, fileIndex) => validateAttachment(file, `${path}.files[${fileIndex}]`));
+  }
+  return value as Project;
+}
+
+function validateSettings(value: unknown): Partial<Settings> {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw new Error("settings is not an object.");
+  if (value.keys !== undefined && !isRecord(value.keys)) throw new Error("settings.keys must be an object.");
+  if (value.enabledModels !== undefined && !Array.isArray(value.enabledModels)) {
+    throw new Error("settings.enabledModels must be a list.");
+  }
+  if (value.customModels !== undefined && !Array.isArray(value.customModels)) {
+    throw new Error("settings.customModels must be a list.");
+  }
+  if (value.modelParams !== undefined && !isRecord(value.modelParams)) {
+    throw new Error("settings.modelParams must be an object.");
+  }
+  if (
+    value.contextStrategy !== undefined &&
+    !["truncate", "sliding_window", "summarize"].includes(value.contextStrategy as string)
+  ) {
+    throw new Error("settings.contextStrategy must be truncate, sliding_window or summarize.");
+  }
+  if (value.embeddingProvider !== undefined && !["openai", "google", "mistral"].includes(value.embeddingProvider as string)) {
+    throw new Error("settings.embeddingProvider must be openai, google or mistral.");
+  }
+  if (value.mcpServers !== undefined) {
+    if (!Array.isArray(value.mcpServers)) throw new Error("settings.mcpServers must be a list.");
+    value.mcpServers.forEach((server, index) => {
+      if (!isRecord(server) || typeof server.id !== "string" || typeof server.name !== "string" || typeof server.url !== "string") {
+        throw new Error(`settings.mcpServers[${index}] needs an id, a name and a URL.`);
+      }
+    });
+  }
+  if (value.modelMetadata !== undefined && !isRecord(value.modelMetadata)) {
+    throw new Error("settings.modelMetadata must be an object.");
+  }
+  if (value.shortcuts !== undefined && !isRecord(value.shortcuts)) {
+    throw new Error("settings.shortcuts must be an object.");
+  }
+  if (value.promptTemplates !== undefined) {
+    if (!Array.isArray(value.promptTemplates)) throw new Error("settings.promptTemplates must be a list.");
+    value.promptTemplates.forEach((template, index) => {
+      if (!isRecord(template) || typeof template.id !== "string" || typeof template.content !== "string") {
+        throw new Error(`settings.promptTemplates[${index}] needs an id and content.`);
+      }
+    });
+  }
+  return value as Partial<Settings>;
+}
+
+export function createBackup(
+  data: { conversations: Conversation[]; projects: Project[]; settings: Settings },
+  options: { includeApiKeys: boolean }
+): BackupBundle {
+  const keys = Object.fromEntries(
+    Object.entries(data.settings.keys).map(([providerId, key]) => [providerId, options.includeApiKeys ? key : ""])
+  ) as Record<ProviderId, string>;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    conversations: data.conversations,
+    projects: data.projects,
+    settings: {
+      ...data.settings,
+      keys,
+      // Server headers usually carry tokens, so they follow the API key choice
+      mcpServers: data.settings.mcpServers?.map((server) =>
+        options.includeApiKeys ? server : { ...server, headers: undefined }
+      ),
+    },
+  };
+}
+
+/** Parses and validates an exported bundle, throwing an error that names the first bad field. */
+export function parseBackup(text: string): BackupBundle {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not an Apeiron backup.");
+  }
+  if (typeof raw.version !== "number" || raw.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${String(raw.version)} is not supported by this version of Apeiron.`);
+  }
+  if (!Array.isArray(raw.conversations)) throw new Error("conversations must be a list.");
+  if (raw.projects !== undefined && !Array.isArray(raw.projects)) throw new Error("projects must be a list.");
+
+  return {
+    format: BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === "number" ? raw.exportedAt : Date.now(),
+    conversations: raw.conversations.map(validateConversation),
+    projects: (raw.projects ?? []).map(validateProject),
+    settings: validateSettings(raw.settings),
+  };
+}
+
+/** Items from `incoming` replace existing items with the same id; everything else is kept. */
+export function mergeById<T extends { id: string }>(existing: T[], incoming: T[]) {
+  const incomingIds = new Set(incoming.map((item) => item.id));
+  return [...incoming, ...existing.filter((item) => !incomingIds.has(item.id))];
+}
+
+/**
+ * Combines imported settings with the current ones. Blank API keys in the
+ * bundle (for example from an export without keys) never erase a saved key,
+ * and the same goes for MCP server headers.
+ */
+export function importSettings(current: Settings, incoming: Partial<Settings>, mode: ImportMode): Settings {
+  const keys = { ...current.keys };
+  Object.entries(incoming.keys ?? {}).forEach(([providerId, key]) => {
+    if (providerId in PROVIDERS && typeof key === "string" && key) keys[providerId as ProviderId] = key;
+  });
+  if (mode === "replace") {
+    return { ...current, ...incoming, keys };
+  }
+  return {
+    ...current,
+    ...incoming,
+    keys,
+    systemPrompt: incoming.systemPrompt || current.systemPrompt,
+    enabledModels: Array.from(new Set([...current.enabledModels, ...(incoming.enabledModels ?? [])])),
+    customModels: mergeById(current.customModels ?? [], incoming.customModels ?? []),
+    modelParams: { ...current.modelParams, ...incoming.modelParams },
+    mcpServers: mergeById(
+      current.mcpServers ?? [],
+      (incoming.mcpServers ?? []).map((server) => ({
+        ...server,
+        headers: server.headers ?? current.mcpServers?.find((item) => item.id === server.id)?.headers,
+      }))
+    ),
+    modelMetadata: { ...current.modelMetadata, ...incoming.modelMetadata },
+    shortcuts: { ...current.shortcuts, ...incoming.shortcuts },
+    promptTemplates: mergeById(current.promptTemplates ?? [], incoming.promptTemplates ?? []),
+  };
+}
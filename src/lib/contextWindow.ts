@@ -0,0 +1,192 @@
+import { decodeTextAttachment, getAttachmentBase64, getAttachmentKind } from "./attachments";
+import { getRequestModelId, type GenerationParams, type ModelItem } from "./providers";
+import type { Attachment, ContextStrategy, ContextSummary, Message } from "./types";
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = "truncate";
+export const DEFAULT_WINDOW_TURNS = 10;
+
+// Input limits for direct-provider models, matched by prefix like the pricing
+// table. Catalog models (OpenRouter, Gemini) carry their own `contextLength`.
+export const MODEL_CONTEXT_LENGTHS: Record<string, number> = {
+  "claude-": 200_000,
+  "gpt-5": 272_000,
+  "gpt-4.1": 1_047_576,
+  "gpt-4o": 128_000,
+  "o4-mini": 200_000,
+  o3: 200_000,
+  "gemini-": 1_048_576,
+  "mistral-large": 128_000,
+  "mistral-medium": 128_000,
+  "mistral-small": 128_000,
+  "deepseek-": 128_000,
+};
+
+const CONTEXT_PREFIXES = Object.keys(MODEL_CONTEXT_LENGTHS).sort((a, b) => b.length - a.length);
+
+// Used when nothing is known about a model; small enough to be safe for most.
+const FALLBACK_CONTEXT_LENGTH = 32_000;
+// Room kept for the answer when the user has not set max tokens
+const DEFAULT_OUTPUT_RESERVE = 4096;
+// Role markers and message framing cost a few tokens on every provider
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Providers bill images by tile; this is roughly one large image
+const IMAGE_TOKENS = 1_000;
+// Room in a summary request for the instructions and the previous summary
+const SUMMARY_PROMPT_RESERVE = 1_500;
+const SUMMARY_MIN_BATCH_TOKENS = 1_000;
+
+export function getContextLength(model: ModelItem) {
+  if (model.contextLength) return model.contextLength;
+  const name = getRequestModelId(model).split("/").pop() ?? "";
+  const prefix = CONTEXT_PREFIXES.find((key) => name.startsWith(key));
+  return prefix ? MODEL_CONTEXT_LENGTHS[prefix] : FALLBACK_CONTEXT_LENGTH;
+}
+
+/**
+ * A rough count at four characters per token. Real tokenizers differ by a
+ * few percent for English prose and more for code, which the output reserve absorbs.
+ */
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateAttachmentTokens(attachment: Attachment) {
+  const kind = getAttachmentKind(attachment);
+  if (kind === "image") return IMAGE_TOKENS;
+  if (kind === "text") return estimateTokens(decodeTextAttachment(attachment));
+  // PDFs are sent whole; their extracted text is usually about a sixth of the file size
+  return Math.ceil((getAttachmentBase64(attachment).length * 0.75) / 6);
+}
+
+export function estimateMessageTokens(message: Message) {
+  return (
+    MESSAGE_OVERHEAD_TOKENS +
+    estimateTokens(message.content) +
+    (message.attachments ?? []).reduce((total, attachment) => total + estimateAttachmentTokens(attachment), 0)
+  );
+}
+
+/** Tokens left for the conversation once the answer and the system prompt have their room. */
+export function getInputBudget(model: ModelItem, params: GenerationParams, systemPrompt: string) {
+  const reserve = (params.maxTokens ?? DEFAULT_OUTPUT_RESERVE) + (params.thinking ? params.thinkingBudget ?? 0 : 0);
+  return Math.max(0, getContextLength(model) - reserve - estimateTokens(systemPrompt));
+}
+
+// A turn is a user message and the replies to it; turns are dropped whole so a
+// reply never appears without its question.
+function splitTurns(messages: Message[]) {
+  const turns: Message[][] = [];
+  messages.forEach((message) => {
+    if (message.role === "user" || turns.length === 0) turns.push([message]);
+    else turns[turns.length - 1].push(message);
+  });
+  return turns;
+}
+
+export type FittedContext = {
+  messages: Message[];
+  /** Messages left out, oldest first. With the summarize strategy these are what needs summarizing. */
+  dropped: Message[];
+  estimatedTokens: number;
+};
+
+/**
+ * Chooses which messages to send. The sliding window keeps the last
+ * `windowTurns` turns; every strategy then drops the oldest turns until the
+ * rest fits `budget`. The newest turn is always kept, even when it alone is too big.
+ */
+export function fitContext(
+  messages: Message[],
+  options: { budget: number; strategy: ContextStrategy; windowTurns?: number }
+): FittedContext {
+  const turns = splitTurns(messages);
+  const costs = turns.map((turn) => turn.reduce((total, message) => total + estimateMessageTokens(message), 0));
+  let first = 0;
+  if (options.strategy === "sliding_window") {
+    first = Math.max(0, turns.length - Math.max(1, options.windowTurns ?? DEFAULT_WINDOW_TURNS));
+  }
+  let estimatedTokens = costs.slice(first).reduce((total, cost) => total + cost, 0);
+  while (estimatedTokens > options.budget && first < turns.length - 1) {
+    estimatedTokens -= costs[first];
+    first += 1;
+  }
+  return {
+    messages: turns.slice(first).flat(),
+    dropped: turns.slice(0, first).flat(),
+    estimatedTokens,
+  };
+}
+
+/**
+ * Where the turn opened by `throughMessageId` ends in `messages`, or -1 when
+ * the message is not there. Compare-mode contexts hold only one model's
+ * replies, so the summary is keyed on the shared user message, not a reply.
+ */
+export function summarizedTurnEnd(messages: Message[], throughMessageId: string) {
+  const index = messages.findIndex((message) => message.id === throughMessageId);
+  if (index === -1) return -1;
+  const next = messages.findIndex((message, position) => position > index && message.role === "user");
+  return next === -1 ? messages.length : next;
+}
+
+/**
+ * The part of `messages` a stored summary does not already cover. A summary
+ * made on another branch covers nothing here, so it is ignored.
+ */
+export function messagesAfterSummary(messages: Message[], summary: ContextSummary | undefined) {
+  if (!summary) return { messages, summary: undefined };
+  const end = summarizedTurnEnd(messages, summary.throughMessageId);
+  if (end === -1) return { messages, summary: undefined };
+  return { messages: messages.slice(end), summary };
+}
+
+/** The message a summary of `dropped` is keyed on: the user message opening its last turn. */
+export function summaryAnchor(dropped: Message[]) {
+  return [...dropped].reverse().find((message) => message.role === "user") ?? dropped[dropped.length - 1];
+}
+
+/**
+ * Splits dropped messages into batches whose transcripts fit `budget` tokens,
+ * so each summary request fits the model. A message too long for a batch of
+ * its own is cut short.
+ */
+export function summaryBatches(dropped: Message[], budget: number) {
+  const limit = Math.max(SUMMARY_MIN_BATCH_TOKENS, budget - SUMMARY_PROMPT_RESERVE);
+  const batches: Message[][] = [];
+  let current: Message[] = [];
+  let tokens = 0;
+  dropped.forEach((message) => {
+    let cost = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+    if (cost > limit) {
+      message = { ...message, content: `${message.content.slice(0, (limit - MESSAGE_OVERHEAD_TOKENS) * 4)}\n[...]` };
+      cost = limit;
+    }
+    if (tokens + cost > limit && current.length) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(message);
+    tokens += cost;
+  });
+  if (current.length) batches.push(current);
+  return batches;
+}
+
+export function summaryToSystemPrompt(summary: ContextSummary) {
+  return `Summary of the earlier part of this conversation, which is no longer shown in full:\n\n${summary.content}`;
+}
+
+/** The request that asks a model to fold older turns (and any earlier summary) into one summary. */
+export function buildSummaryRequest(dropped: Message[], previous: ContextSummary | undefined) {
+  const transcript = dropped
+    .map((message) => `${message.role === "user" ? "User" : "Assistant"}: ${message.content}`)
+    .join("\n\n");
+  return [
+    "Summarize the conversation below so it can replace the original messages as context for later replies.",
+    "Keep facts, decisions, names, numbers, code identifiers and open questions. Leave out pleasantries.",
+    "Write plain prose or short bullet points, at most about 400 words.",
+    previous ? `\nSummary of what came before it:\n${previous.content}` : "",
+    `\nConversation:\n${transcript}`,
+  ].join("\n");
+}
@@ -0,0 +1,170 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown, { defaultUrlTransform, type UrlTransform } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { PROVIDERS, getModelLabel, type ModelItem } from "./providers";
+import { DOCUMENT_SOURCE_PREFIX } from "./retrieval";
+import type { Message } from "./types";
+import { parseCodeMeta } from "./utils";
+
+const THEME_VARIABLES = [
+  "--bg-main",
+  "--surface-1",
+  "--surface-2",
+  "--border-subtle",
+  "--accent-soft",
+  "--text-primary",
+  "--text-secondary",
+  "--text-muted",
+];
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Fences written as ```ts:app.ts or ```ts file=app.ts render with a filename
+// badge in the app; in plain Markdown the filename goes on its own line.
+function normalizeCodeFences(content: string) {
+  return content.replace(/^(\s*)(```+|~~~+)([^\s`]+)(?:[ \t]+([^\n]*))?$/gm, (line, indent, fence, info, meta) => {
+    const { language, filename } = parseCodeMeta(`language-${info}`, meta);
+    if (!filename) return line;
+    return `${indent}**${filename}**\n\n${indent}${fence}${language}`;
+  });
+}
+
+function messageHeading(message: Message, models: ModelItem[]) {
+  if (message.role === "user") return "You";
+  const label = message.modelId ? getModelLabel(message.modelId, models) : "Assistant";
+  return message.providerId ? `${label} (${PROVIDERS[message.providerId].name})` : label;
+}
+
+function messageToMarkdown(message: Message, models: ModelItem[]) {
+  const sections = [`### ${messageHeading(message, models)}`];
+  message.attachments?.forEach((attachment) => {
+    sections.push(
+      attachment.type.startsWith("image/")
+        ? `![${attachment.name}](${attachment.dataUrl})`
+        : `*Attached file: ${attachment.name}*`
+    );
+  });
+  message.toolCalls?.forEach((call) => {
+    sections.push(`> Used tool \`${call.name}\`${call.result !== undefined ? `: ${call.result.replace(/\n/g, " ")}` : ""}`);
+  });
+  if (message.content) sections.push(normalizeCodeFences(message.content));
+  message.images?.forEach((url, index) => sections.push(`![Generated image ${index + 1}](${url})`));
+  if (message.error) sections.push(`> **Error:** ${message.error.message}`);
+  if (message.sources?.length) {
+    const sources = message.sources.map((source, index) =>
+      source.url.startsWith(DOCUMENT_SOURCE_PREFIX)
+        ? `${index + 1}. ${source.title} (project document)`
+        : `${index + 1}. [${source.title || source.url}](${source.url})`
+    );
+    sections.push(["**Sources**", ...sources].join("\n"));
+  }
+  return sections.join("\n\n");
+}
+
+/** Renders a conversation path to Markdown, with model labels, sources and inline images. */
+export function conversationToMarkdown(title: string, messages: Message[], models: ModelItem[]) {
+  return [`# ${title}`, ...messages.map((message) => messageToMarkdown(message, models))].join("\n\n---\n\n") + "\n";
+}
+
+/** Reads the active theme's colours so exported HTML matches what is on screen. */
+export function readThemeVariables() {
+  const style = getComputedStyle(document.documentElement);
+  return Object.fromEntries(THEME_VARIABLES.map((name) => [name, style.getPropertyValue(name).trim()]));
+}
+
+// The default transform blanks data: URLs, which is where attachment and generated
+// images live. Images keep them; a data: link loses its href so it is neither
+// clickable nor a second copy of a large payload.
+const exportUrlTransform: UrlTransform = (url, key, node) => {
+  if (!url.startsWith("data:")) return defaultUrlTransform(url);
+  return key === "src" && node.tagName === "img" && url.startsWith("data:image/") ? url : undefined;
+};
+
+/** Builds a standalone HTML document with inline styles and a print stylesheet for saving as PDF. */
+export function conversationToHtml(
+  title: string,
+  messages: Message[],
+  models: ModelItem[],
+  theme: Record<string, string>
+) {
+  const body = messages
+    .map((message) => {
+      const markdown = messageToMarkdown(message, models).replace(/^### .*\n\n?/, "");
+      const html = renderToStaticMarkup(
+        <ReactMarkdown remarkPlugins={[remarkGfm]} urlTransform={exportUrlTransform}>
+          {markdown}
+        </ReactMarkdown>
+      );
+      return `<section class="message ${message.role}">
+  <h2>${escapeHtml(messageHeading(message, models))}</h2>
+  <div class="content">${html}</div>
+</section>`;
+    })
+    .join("\n");
+  const variables = Object.entries(theme)
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value};`)
+    .join(" ");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>
+  :root { ${variables} }
+  body { margin: 0; background: var(--bg-main, #f4f4f5); color: var(--text-primary, #0f0f0f); font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+  main { max-width: 48rem; margin: 0 auto; padding: 3rem 1.5rem; }
+  h1 { font-size: 1.5rem; margin: 0 0 2rem; }
+  .message { margin-bottom: 2rem; padding: 1rem 1.25rem; border: 1px solid var(--border-subtle, #e4e4e7); border-radius: 1rem; background: var(--surface-1, #fff); }
+  .message.user { background: var(--surface-2, #f7f7f8); }
+  .message h2 { margin: 0 0 0.5rem; font-size: 0.7rem; letter-spacing: 0.15em; text-transform: uppercase; color: var(--text-secondary, #6b7280); }
+  .content img { max-width: 100%; border-radius: 0.75rem; }
+  .content pre { overflow-x: auto; padding: 1rem; border-radius: 0.75rem; background: var(--accent-soft, #f4f4f5); border: 1px solid var(--border-subtle, #e4e4e7); }
+  .content code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid var(--border-subtle, #e4e4e7); padding: 0.25rem 0.5rem; }
+  .content a { color: inherit; }
+  @media print {
+    body { background: #fff; color: #000; }
+    main { max-width: none; padding: 0; }
+    .message { break-inside: avoid; background: #fff; border-color: #ddd; }
+    .content pre { white-space: pre-wrap; background: #f6f6f6; }
+    .content a[href]::after { content: " (" attr(href) ")"; font-size: 0.8em; }
+  }
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</main>
+</body>
+</html>
+`;
+}
+
+/** Opens the HTML export in a new window and starts the browser's print dialog. */
+export function printConversation(html: string) {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) throw new Error("The print window was blocked. Allow pop-ups for this site and try again.");
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  let printed = false;
+  const print = () => {
+    if (printed) return;
+    printed = true;
+    printWindow.print();
+  };
+  printWindow.onload = print;
+  // Some browsers finish loading document.write content before onload is attached
+  if (printWindow.document.readyState === "complete") print();
+}
@@ -0,0 +1,319 @@
+import { parseEventJson, readServerSentEvents } from "./sse";
+import type { McpServerConfig } from "./types";
+
+const PROTOCOL_VERSION = "2025-06-18";
+const CLIENT_INFO = { name: "Apeiron", version: "2.0.0" };
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export type McpTool = {
+  name: string;
+  title?: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+};
+
+export type McpResource = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type McpPrompt = {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+};
+
+type ContentItem = { type: string; text?: string; mimeType?: string; uri?: string; resource?: { uri?: string; text?: string } };
+
+export type McpToolResult = {
+  content?: ContentItem[];
+  structuredContent?: unknown;
+  isError?: boolean;
+};
+
+type JsonRpcMessage = {
+  jsonrpc: "2.0";
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+};
+
+/** An open connection to one server. Requests are JSON-RPC calls answered by the server. */
+export type McpConnection = {
+  serverName: string;
+  request: <T>(method: string, params?: Record<string, unknown>) => Promise<T>;
+  close: () => void;
+};
+
+function rpcError(serverName: string, error: NonNullable<JsonRpcMessage["error"]>) {
+  return new Error(`${serverName}: ${error.message} (code ${error.code})`);
+}
+
+// The request is aborted on timeout so a hung server does not keep its connection open
+function withTimeout<T>(run: (signal: AbortSignal) => Promise<T>, serverName: string, method: string) {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new Error(`${serverName} did not answer ${method} within ${REQUEST_TIMEOUT_MS / 1000}s.`));
+    }, REQUEST_TIMEOUT_MS);
+    run(controller.signal).then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/** The server no longer knows our session; a new initialize handshake starts another. */
+class McpSessionExpiredError extends Error {}
+
+async function httpError(response: Response, serverName: string) {
+  const text = await response.text().catch(() => "");
+  return new Error(`${serverName} returned status ${response.status}${text ? `: ${text.slice(0, 300)}` : ""}`);
+}
+
+/**
+ * Streamable HTTP transport: every message is a POST, and the server answers
+ * with either a JSON body or an SSE stream that ends with the response.
+ */
+function streamableHttpTransport(config: McpServerConfig) {
+  let sessionId: string | null = null;
+  let protocolVersion: string | null = null;
+  const controller = new AbortController();
+
+  async function post(message: JsonRpcMessage, signal?: AbortSignal) {
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        ...(protocolVersion ? { "MCP-Protocol-Version": protocolVersion } : {}),
+        ...config.headers,
+      },
+      body: JSON.stringify(message),
+      signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+    });
+    sessionId = response.headers.get("Mcp-Session-Id") ?? sessionId;
+    return response;
+  }
+
+  return {
+    async send(message: JsonRpcMessage, signal?: AbortSignal): Promise<JsonRpcMessage | null> {
+      const response = await post(message, signal);
+      // Servers answer 404 to a session id they have dropped, for example after a restart
+      if (response.status === 404 && sessionId && message.method !== "initialize") {
+        sessionId = null;
+        throw new McpSessionExpiredError(`${config.name} ended the session.`);
+      }
+      if (!response.ok) throw await httpError(response, config.name);
+      if (message.id === undefined) return null;
+      if (response.headers.get("Content-Type")?.includes("text/event-stream") && response.body) {
+        // The stream may carry server requests and notifications before our response
+        for await (const event of readServerSentEvents(response.body)) {
+          const incoming = parseEventJson(event, config.name) as JsonRpcMessage;
+          if (incoming.id === message.id && (incoming.result !== undefined || incoming.error)) return incoming;
+        }
+        throw new Error(`${config.name} closed the stream without answering.`);
+      }
+      return (await response.json()) as JsonRpcMessage;
+    },
+    setProtocolVersion(version: string) {
+      protocolVersion = version;
+    },
+    close() {
+      if (sessionId) {
+        fetch(config.url, { method: "DELETE", headers: { "Mcp-Session-Id": sessionId, ...config.headers } }).catch(
+          () => undefined
+        );
+      }
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * Legacy HTTP+SSE transport: a long-lived GET stream first names the endpoint
+ * to POST to, then carries every response.
+ */
+async function sseTransport(config: McpServerConfig) {
+  const controller = new AbortController();
+  const pending = new Map<number | string, (message: JsonRpcMessage) => void>();
+  let failure: Error | null = null;
+
+  const response = await fetch(config.url, {
+    headers: { Accept: "text/event-stream", ...config.headers },
+    signal: controller.signal,
+  });
+  if (!response.ok || !response.body) throw await httpError(response, config.name);
+
+  const events = readServerSentEvents(response.body);
+  const first = await events.next();
+  if (first.done || first.value.event !== "endpoint") {
+    controller.abort();
+    throw new Error(`${config.name} did not announce an endpoint. Is this a Streamable HTTP server?`);
+  }
+  const endpoint = new URL(first.value.data, config.url).toString();
+
+  (async () => {
+    for await (const event of events) {
+      if (event.event !== "message") continue;
+      let incoming: JsonRpcMessage;
+      try {
+        incoming = JSON.parse(event.data) as JsonRpcMessage;
+      } catch {
+        // This stream carries every answer, so one bad frame must not end it; its request times out instead
+        continue;
+      }
+      if (incoming.id !== undefined) pending.get(incoming.id)?.(incoming);
+    }
+    failure = new Error(`${config.name} closed the connection.`);
+  })().catch((error) => {
+    failure = error instanceof Error ? error : new Error(String(error));
+  });
+
+  return {
+    async send(message: JsonRpcMessage, signal?: AbortSignal): Promise<JsonRpcMessage | null> {
+      if (failure) throw failure;
+      const answer =
+        message.id === undefined
+          ? null
+          : new Promise<JsonRpcMessage>((resolve, reject) => {
+              pending.set(message.id as number | string, resolve);
+              signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")), { once: true });
+            });
+      // A failed POST leaves the answer unawaited; its later abort must not surface as unhandled
+      answer?.catch(() => undefined);
+      try {
+        const posted = await fetch(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...config.headers },
+          body: JSON.stringify(message),
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+        });
+        if (!posted.ok) throw await httpError(posted, config.name);
+        return answer ? await answer : null;
+      } finally {
+        if (message.id !== undefined) pending.delete(message.id);
+      }
+    },
+    setProtocolVersion() {
+      // The legacy transport has no version header
+    },
+    close() {
+      controller.abort();
+    },
+  };
+}
+
+/** Connects to a server and completes the MCP initialize handshake. */
+export async function connectMcpServer(config: McpServerConfig): Promise<McpConnection> {
+  const transport = config.transport === "sse" ? await sseTransport(config) : streamableHttpTransport(config);
+  let nextId = 1;
+
+  async function send<T>(method: string, params?: Record<string, unknown>) {
+    const id = nextId++;
+    const response = await withTimeout(
+      (signal) => transport.send({ jsonrpc: "2.0", id, method, params }, signal),
+      config.name,
+      method
+    );
+    if (!response) throw new Error(`${config.name} sent no answer to ${method}.`);
+    if (response.error) throw rpcError(config.name, response.error);
+    return response.result as T;
+  }
+
+  async function initialize() {
+    const initialized = await send<{ protocolVersion?: string }>("initialize", {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    transport.setProtocolVersion(initialized.protocolVersion ?? PROTOCOL_VERSION);
+    await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  }
+
+  // Calls that fail together on an expired session share one new handshake
+  let reinitializing: Promise<void> | null = null;
+
+  async function request<T>(method: string, params?: Record<string, unknown>) {
+    try {
+      return await send<T>(method, params);
+    } catch (error) {
+      if (!(error instanceof McpSessionExpiredError)) throw error;
+      reinitializing ??= initialize().finally(() => {
+        reinitializing = null;
+      });
+      await reinitializing;
+      return send<T>(method, params);
+    }
+  }
+
+  try {
+    await initialize();
+  } catch (error) {
+    transport.close();
+    throw error;
+  }
+
+  return { serverName: config.name, request, close: transport.close };
+}
+
+// List methods are paginated with an opaque cursor
+async function listAll<T>(connection: McpConnection, method: string, key: string) {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await connection.request<Record<string, unknown>>(method, cursor ? { cursor } : undefined);
+    items.push(...((page[key] as T[] | undefined) ?? []));
+    cursor = typeof page.nextCursor === "string" ? page.nextCursor : undefined;
+  } while (cursor);
+  return items;
+}
+
+export function listMcpTools(connection: McpConnection) {
+  return listAll<McpTool>(connection, "tools/list", "tools");
+}
+
+export function listMcpResources(connection: McpConnection) {
+  return listAll<McpResource>(connection, "resources/list", "resources");
+}
+
+export function listMcpPrompts(connection: McpConnection) {
+  return listAll<McpPrompt>(connection, "prompts/list", "prompts");
+}
+
+export function callMcpTool(connection: McpConnection, name: string, args: Record<string, unknown>) {
+  return connection.request<McpToolResult>("tools/call", { name, arguments: args });
+}
+
+/** Flattens a tool result into text for the model; non-text content is described rather than inlined. */
+export function mcpResultToText(result: McpToolResult) {
+  const parts = (result.content ?? []).map((item) => {
+    if (item.type === "text") return item.text ?? "";
+    if (item.type === "resource") return item.resource?.text ?? `[Resource ${item.resource?.uri ?? ""}]`;
+    if (item.type === "resource_link") return `[Resource ${item.uri ?? ""}]`;
+    return `[${item.type}${item.mimeType ? ` ${item.mimeType}` : ""} content]`;
+  });
+  if (parts.length === 0 && result.structuredContent !== undefined) return JSON.stringify(result.structuredContent);
+  return parts.join("\n\n");
+}
+
+/**
+ * Model-facing tool names must be unique across servers and match
+ * ^[a-zA-Z0-9_-]{1,64}$ for every provider, so they are prefixed and cleaned.
+ */
+export function mcpToolName(serverName: string, toolName: string) {
+  const clean = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${clean(serverName)}__${clean(toolName)}`.slice(0, 64);
+}
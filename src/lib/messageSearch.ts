@@ -0,0 +1,156 @@
+import { getModelLabel, type ModelItem, type ProviderId } from "./providers";
+import type { Conversation, Message } from "./types";
+
+const SNIPPET_RADIUS = 80;
+const RESULT_LIMIT = 100;
+
+export type SearchFilters = {
+  /** A project id, "none" for conversations outside projects, or undefined for all. */
+  projectId?: string;
+  modelId?: string;
+  providerId?: ProviderId;
+  role?: Message["role"];
+  /** Inclusive bounds as timestamps. */
+  from?: number;
+  to?: number;
+};
+
+type IndexedMessage = {
+  conversation: Conversation;
+  message: Message;
+};
+
+/** Maps each word to the messages containing it, so a query touches only candidate messages. */
+export type MessageSearchIndex = {
+  entries: IndexedMessage[];
+  words: Map<string, Set<number>>;
+};
+
+export type SnippetPart = { text: string; match: boolean };
+
+export type MessageSearchResult = {
+  conversation: Conversation;
+  message: Message;
+  /** Where the match was found, when it was not the message body. */
+  matchedIn: "content" | "attachment" | "model";
+  snippet: SnippetPart[];
+  score: number;
+};
+
+function words(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+export function buildMessageSearchIndex(conversations: Conversation[], models: ModelItem[]): MessageSearchIndex {
+  const entries: IndexedMessage[] = [];
+  const index = new Map<string, Set<number>>();
+  conversations.forEach((conversation) => {
+    conversation.messages.forEach((message) => {
+      const position = entries.length;
+      // Body, attachment names and the model label are all searchable
+      const text = [
+        message.content,
+        ...(message.attachments ?? []).map((attachment) => attachment.name),
+        message.modelId ? getModelLabel(message.modelId, models) : "",
+      ]
+        .join("\n")
+        .toLowerCase();
+      entries.push({ conversation, message });
+      new Set(words(text)).forEach((word) => {
+        const postings = index.get(word) ?? new Set<number>();
+        postings.add(position);
+        index.set(word, postings);
+      });
+    });
+  });
+  return { entries, words: index };
+}
+
+// The last query word may still be being typed, so it matches as a prefix.
+function candidatesFor(index: MessageSearchIndex, word: string, isPrefix: boolean) {
+  if (!isPrefix) return index.words.get(word) ?? new Set<number>();
+  const matches = new Set<number>();
+  index.words.forEach((postings, indexed) => {
+    if (indexed.startsWith(word)) postings.forEach((position) => matches.add(position));
+  });
+  return matches;
+}
+
+function matchesFilters(entry: IndexedMessage, filters: SearchFilters) {
+  const { conversation, message } = entry;
+  if (filters.projectId === "none" ? conversation.projectId : filters.projectId && conversation.projectId !== filters.projectId) {
+    return false;
+  }
+  if (filters.modelId && message.modelId !== filters.modelId) return false;
+  if (filters.providerId && message.providerId !== filters.providerId) return false;
+  if (filters.role && message.role !== filters.role) return false;
+  if (filters.from !== undefined && message.createdAt < filters.from) return false;
+  if (filters.to !== undefined && message.createdAt > filters.to) return false;
+  return true;
+}
+
+/** Cuts a window around the first match and marks every query word inside it. */
+function buildSnippet(source: string, queryWords: string[]): SnippetPart[] {
+  const lower = source.toLowerCase();
+  const first = Math.min(...queryWords.map((word) => lower.indexOf(word)).filter((position) => position >= 0));
+  const center = Number.isFinite(first) ? first : 0;
+  const start = Math.max(0, center - SNIPPET_RADIUS);
+  const end = Math.min(source.length, center + SNIPPET_RADIUS * 2);
+  const window = source.slice(start, end).replace(/\s+/g, " ");
+  if (queryWords.length === 0) return [{ text: window + (end < source.length ? "..." : ""), match: false }];
+  const pattern = new RegExp(`(${queryWords.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "gi");
+  const parts: SnippetPart[] = window
+    .split(pattern)
+    .filter(Boolean)
+    .map((text) => ({ text, match: queryWords.includes(text.toLowerCase()) }));
+  if (start > 0) parts.unshift({ text: "...", match: false });
+  if (end < source.length) parts.push({ text: "...", match: false });
+  return parts;
+}
+
+/**
+ * Finds messages containing every word of `query` (the last one as a prefix),
+ * newest first among equally good matches. A query of only filters lists the
+ * newest matching messages.
+ */
+export function searchMessages(
+  index: MessageSearchIndex,
+  query: string,
+  filters: SearchFilters,
+  models: ModelItem[]
+): MessageSearchResult[] {
+  const queryWords = words(query);
+  const prefixEndsQuery = /[\p{L}\p{N}]$/u.test(query);
+  let candidates: number[];
+  if (queryWords.length === 0) {
+    candidates = index.entries.map((_, position) => position);
+  } else {
+    const sets = queryWords.map((word, position) =>
+      candidatesFor(index, word, prefixEndsQuery && position === queryWords.length - 1)
+    );
+    candidates = Array.from(sets[0]).filter((position) => sets.every((set) => set.has(position)));
+  }
+
+  const results = candidates
+    .map((position) => index.entries[position])
+    .filter((entry) => matchesFilters(entry, filters))
+    .map((entry): MessageSearchResult => {
+      const { conversation, message } = entry;
+      const content = message.content.toLowerCase();
+      const inContent = queryWords.filter((word) => content.includes(word)).length;
+      const attachment = message.attachments?.find((item) => queryWords.some((word) => item.name.toLowerCase().includes(word)));
+      const matchedIn = queryWords.length === 0 || inContent > 0 ? "content" : attachment ? "attachment" : "model";
+      const snippetSource =
+        matchedIn === "attachment" && attachment
+          ? attachment.name
+          : matchedIn === "model" && message.modelId
+            ? getModelLabel(message.modelId, models)
+            : message.content;
+      // Matches in the body beat matches in a file name or model label
+      return { conversation, message, matchedIn, snippet: buildSnippet(snippetSource, queryWords), score: inContent };
+    });
+
+  return results
+    .sort((a, b) => b.score - a.score || b.message.createdAt - a.message.createdAt)
+    .slice(0, RESULT_LIMIT);
+}
@@ -0,0 +1,115 @@
+import { PROVIDERS, type Modality, type ModelItem, type ProviderId } from "./providers";
+
+/** Providers whose model-list endpoint can be queried directly with the user's key. */
+export const CATALOG_PROVIDERS: ProviderId[] = ["openai", "anthropic", "google", "mistral", "deepseek"];
+
+// OpenAI's list mixes chat models with embeddings, audio and image endpoints.
+const OPENAI_NON_CHAT = /embedding|whisper|tts|dall-e|davinci|babbage|moderation|transcribe|realtime|audio|image|search/;
+
+export function labelFromModelName(name: string) {
+  return name.split("/").pop()?.replace(/[-_]/g, " ").replace(/\b\w/g, (c) => c.toUpperCase()) ?? name;
+}
+
+async function getJson(url: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(errorText || `Request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+function toModelItem(providerId: ProviderId, name: string, label?: string, extra: Partial<ModelItem> = {}): ModelItem {
+  return { id: `${providerId}/${name}`, label: label || labelFromModelName(name), providerId, ...extra };
+}
+
+/** Lists the chat models a provider offers for the given key. */
+export async function fetchProviderModels(providerId: ProviderId, apiKey: string): Promise<ModelItem[]> {
+  if (!apiKey) throw new Error("Missing API key for provider.");
+  const provider = PROVIDERS[providerId];
+
+  if (providerId === "anthropic") {
+    const json = await getJson(`${provider.baseUrl}/models?limit=1000`, {
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+      "anthropic-dangerous-direct-browser-access": "true",
+    });
+    return (json.data ?? []).map((model: { id: string; display_name?: string }) =>
+      toModelItem(providerId, model.id, model.display_name)
+    );
+  }
+
+  if (providerId === "google") {
+    const json = await getJson(`${provider.baseUrl}/models?pageSize=1000&key=${apiKey}`);
+    return (json.models ?? [])
+      .filter((model: { supportedGenerationMethods?: string[] }) =>
+        model.supportedGenerationMethods?.includes("generateContent")
+      )
+      .map((model: { name: string; displayName?: string; description?: string; inputTokenLimit?: number }) =>
+        toModelItem(providerId, model.name.replace(/^models\//, ""), model.displayName, {
+          description: model.description,
+          contextLength: model.inputTokenLimit,
+        })
+      );
+  }
+
+  const json = await getJson(`${provider.baseUrl}/models`, { Authorization: `Bearer ${apiKey}` });
+  const models: Array<{ id: string; name?: string; description?: string; capabilities?: { completion_chat?: boolean } }> =
+    json.data ?? [];
+  return models
+    .filter((model) => {
+      if (providerId === "openai") return !OPENAI_NON_CHAT.test(model.id);
+      if (providerId === "mistral") return model.capabilities?.completion_chat !== false;
+      return true;
+    })
+    .map((model) => toModelItem(providerId, model.id, model.name, { description: model.description }));
+}
+
+type OpenRouterModel = {
+  id: string;
+  name?: string;
+  description?: string;
+  context_length?: number;
+  pricing?: { prompt?: string; completion?: string };
+  architecture?: { input_modalities?: string[]; output_modalities?: string[] };
+};
+
+const KNOWN_MODALITIES: Modality[] = ["text", "image", "file", "audio", "video"];
+
+function toModalities(values: string[] | undefined) {
+  if (!values) return undefined;
+  return values.filter((value): value is Modality => KNOWN_MODALITIES.includes(value as Modality));
+}
+
+// OpenRouter quotes prices as USD per token strings; "-1" marks variable pricing.
+function perMillion(value: string | undefined) {
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price * 1_000_000 : undefined;
+}
+
+/** Loads OpenRouter's public model list with context length, pricing and modalities. */
+export async function fetchOpenRouterCatalog(): Promise<ModelItem[]> {
+  const json = await getJson(`${PROVIDERS.openrouter.baseUrl}/models`);
+  return (json.data ?? []).map((model: OpenRouterModel) => {
+    const prompt = perMillion(model.pricing?.prompt);
+    const completion = perMillion(model.pricing?.completion);
+    return toModelItem("openrouter", model.id, model.name, {
+      description: model.description,
+      contextLength: model.context_length,
+      pricing: prompt !== undefined && completion !== undefined ? { prompt, completion } : undefined,
+      inputModalities: toModalities(model.architecture?.input_modalities),
+      outputModalities: toModalities(model.architecture?.output_modalities),
+    });
+  });
+}
+
+export function formatContextLength(tokens: number) {
+  if (tokens >= 1_000_000) return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+  if (tokens >= 1_000) return `${Math.round(tokens / 1_000)}K`;
+  return String(tokens);
+}
+
+export function formatPrice(usdPerMillion: number) {
+  if (usdPerMillion === 0) return "free";
+  return `$${usdPerMillion < 1 ? usdPerMillion.toFixed(3) : usdPerMillion.toFixed(2)}`;
+}
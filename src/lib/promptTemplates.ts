@@ -0,0 +1,43 @@
+import type { PromptTemplate } from "./types";
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/** Placeholder names in the order they first appear, each listed once. */
+export function extractTemplateVariables(content: string) {
+  return Array.from(new Set(Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+}
+
+/** Replaces every placeholder; ones without a value are left as written so nothing is lost silently. */
+export function fillTemplate(content: string, values: Record<string, string>) {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/** Global templates plus the ones saved for `projectId`. */
+export function templatesForProject(templates: PromptTemplate[], projectId: string | null | undefined) {
+  return templates.filter((template) => !template.projectId || template.projectId === projectId);
+}
+
+/**
+ * The text after a leading "/" in the composer, or null when the input is not
+ * a template command. The command ends at the first line break.
+ */
+export function getSlashQuery(input: string) {
+  const match = /^\/([^\n]*)$/.exec(input);
+  return match ? match[1] : null;
+}
+
+/** Templates whose name contains every word of `query`; names starting with it come first. */
+export function matchTemplates(templates: PromptTemplate[], query: string) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const needle = query.trim().toLowerCase();
+  return templates
+    .filter((template) => {
+      const name = template.name.toLowerCase();
+      return words.every((word) => name.includes(word));
+    })
+    .sort(
+      (a, b) =>
+        Number(b.name.toLowerCase().startsWith(needle)) - Number(a.name.toLowerCase().startsWith(needle)) ||
+        a.name.localeCompare(b.name)
+    );
+}
@@ -0,0 +1,120 @@
+import type { MessageError, MessageErrorKind } from "./types";
+
+const RETRYABLE_KINDS: MessageErrorKind[] = ["rate_limit", "server", "network"];
+const CONTEXT_LENGTH_PATTERN =
+  /context.{0,20}(length|window|limit)|too many tokens|prompt is too long|maximum.{0,30}tokens|token limit|exceeds the limit/i;
+
+/** A failed provider request, classified so the UI can explain it and retries know when to stop. */
+export class ProviderError extends Error {
+  readonly detail: MessageError;
+
+  constructor(detail: MessageError) {
+    super(detail.message);
+    this.name = "ProviderError";
+    this.detail = detail;
+  }
+}
+
+export function isRetryable(detail: MessageError) {
+  return RETRYABLE_KINDS.includes(detail.kind);
+}
+
+/** Picks an error kind from the HTTP status, the provider's error type and the message text. */
+export function classifyProviderError(options: { status?: number; type?: string; message: string }): MessageErrorKind {
+  const { status, type = "", message } = options;
+  if (status === 401 || status === 403 || /authentication|permission|invalid.{0,10}api.?key|unauthenticated/i.test(type)) {
+    return "auth";
+  }
+  if (status === 429 || /rate_limit|resource_exhausted|quota/i.test(type)) return "rate_limit";
+  if (status === 413 || CONTEXT_LENGTH_PATTERN.test(message)) return "context_length";
+  if ((status !== undefined && status >= 500) || /overloaded|api_error|unavailable|internal/i.test(type)) return "server";
+  if (status === 400 || status === 404 || status === 422 || /invalid_request|not_found|invalid_argument/i.test(type)) {
+    return "invalid_request";
+  }
+  return "unknown";
+}
+
+// OpenAI-style bodies nest the details under `error`; Gemini wraps the body in a list.
+function readErrorBody(text: string): { message?: string; type?: string } {
+  try {
+    const json = JSON.parse(text);
+    const error = (Array.isArray(json) ? json[0] : json)?.error ?? json;
+    const message = typeof error?.message === "string" ? error.message : undefined;
+    const type = [error?.type, error?.code, error?.status].find((value) => typeof value === "string");
+    return { message, type };
+  } catch {
+    return {};
+  }
+}
+
+function retryAfterMs(response: Response) {
+  const header = response.headers.get("retry-after");
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Builds an error from a non-2xx response, keeping the provider's own message rather than the raw body. */
+export async function errorFromResponse(response: Response, providerName: string) {
+  const text = await response.text().catch(() => "");
+  const body = readErrorBody(text);
+  const message = body.message || text.slice(0, 300) || `${providerName} returned status ${response.status}.`;
+  return new ProviderError({
+    kind: classifyProviderError({ status: response.status, type: body.type, message }),
+    message,
+    status: response.status,
+    retryAfterMs: retryAfterMs(response),
+  });
+}
+
+/** Builds an error from an error event sent inside a stream that had already started. */
+export function errorFromStreamEvent(error: { message?: string; type?: string; code?: string | number; status?: string }) {
+  const message = error.message || "The provider reported an error during the response.";
+  const type = [error.type, error.status, typeof error.code === "string" ? error.code : undefined].find(Boolean);
+  const status = typeof error.code === "number" ? error.code : undefined;
+  return new ProviderError({ kind: classifyProviderError({ status, type, message }), message, status });
+}
+
+/** `fetch` with provider error handling: network failures and non-2xx responses throw a ProviderError. */
+export async function fetchProvider(url: string, init: RequestInit, providerName: string) {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") throw error;
+    throw new ProviderError({
+      kind: "network",
+      message: `Could not reach ${providerName}. Check your connection and try again.`,
+    });
+  }
+  if (!response.ok || !response.body) throw await errorFromResponse(response, providerName);
+  return response as Response & { body: ReadableStream<Uint8Array> };
+}
+
+/** Normalizes anything thrown while streaming into the stored error shape. */
+export function toMessageError(error: unknown): MessageError {
+  if (error instanceof ProviderError) return error.detail;
+  const message = error instanceof Error ? error.message : String(error);
+  return { kind: classifyProviderError({ message }), message };
+}
+
+export function describeErrorKind(kind: MessageErrorKind) {
+  switch (kind) {
+    case "auth":
+      return "Authentication failed";
+    case "rate_limit":
+      return "Rate limited";
+    case "context_length":
+      return "Conversation too long for this model";
+    case "network":
+      return "Network error";
+    case "server":
+      return "Provider unavailable";
+    case "invalid_request":
+      return "Request rejected";
+    default:
+      return "Something went wrong";
+  }
+}
@@ -0,0 +1,138 @@
+import type { AttachmentKind } from "./attachments";
+
+export const PROVIDERS = {
+  openrouter: {
+    id: "openrouter",
+    name: "OpenRouter",
+    type: "openai" as const,
+    baseUrl: "https://openrouter.ai/api/v1",
+  },
+  openai: {
+    id: "openai",
+    name: "OpenAI",
+    type: "openai" as const,
+    baseUrl: "https://api.openai.com/v1",
+  },
+  anthropic: {
+    id: "anthropic",
+    name: "Anthropic",
+    type: "anthropic" as const,
+    baseUrl: "https://api.anthropic.com/v1",
+  },
+  google: {
+    id: "google",
+    name: "Google",
+    type: "google" as const,
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+  },
+  mistral: {
+    id: "mistral",
+    name: "Mistral",
+    type: "openai" as const,
+    baseUrl: "https://api.mistral.ai/v1",
+  },
+  deepseek: {
+    id: "deepseek",
+    name: "DeepSeek",
+    type: "openai" as const,
+    baseUrl: "https://api.deepseek.com/v1",
+  },
+} as const;
+
+export type ProviderId = keyof typeof PROVIDERS;
+
+export type Modality = "text" | "image" | "file" | "audio" | "video";
+
+export type ModelPricing = {
+  /** USD per million input tokens */
+  prompt: number;
+  /** USD per million output tokens */
+  completion: number;
+};
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/** Sampling options for a request. Unset fields leave the provider's own default. */
+export type GenerationParams = {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  /** Sent to providers with an effort setting (OpenAI and OpenRouter). */
+  reasoningEffort?: ReasoningEffort;
+  /** Requests the model's reasoning: Anthropic extended thinking, Gemini thoughts, OpenRouter reasoning. */
+  thinking?: boolean;
+  /** Tokens the model may spend reasoning, where the API takes a budget. */
+  thinkingBudget?: number;
+};
+
+export const DEFAULT_THINKING_BUDGET = 4096;
+
+export type ModelItem = {
+  id: string;
+  label: string;
+  providerId: ProviderId;
+  description?: string;
+  /** @deprecated Older saved models only; use `outputModalities`. */
+  supportsImages?: boolean;
+  contextLength?: number;
+  pricing?: ModelPricing;
+  inputModalities?: Modality[];
+  outputModalities?: Modality[];
+  defaultParams?: GenerationParams;
+};
+
+const MULTIMODAL_INPUT: Modality[] = ["text", "image", "file"];
+const IMAGE_OUTPUT: Modality[] = ["text", "image"];
+
+// Modalities here are offline defaults; the OpenRouter catalog replaces them once loaded.
+export const MODEL_OPTIONS: ModelItem[] = [
+  { id: "openrouter/anthropic/claude-opus-4.5", label: "Claude Opus 4.5", providerId: "openrouter", inputModalities: MULTIMODAL_INPUT },
+  { id: "openrouter/anthropic/claude-sonnet-4.5", label: "Claude Sonnet 4.5", providerId: "openrouter", inputModalities: MULTIMODAL_INPUT },
+  { id: "openrouter/openai/gpt-5.2-chat", label: "GPT-5.2 Chat", providerId: "openrouter", inputModalities: MULTIMODAL_INPUT },
+  { id: "openrouter/deepseek/deepseek-r1-0528:free", label: "DeepSeek R1 0528 (Free)", providerId: "openrouter", inputModalities: ["text"] },
+  { id: "openrouter/google/gemini-3-flash-preview", label: "Gemini 3 Flash (Preview)", providerId: "openrouter", inputModalities: MULTIMODAL_INPUT },
+  { id: "openrouter/google/gemini-3-pro-preview", label: "Gemini 3 Pro (Preview)", providerId: "openrouter", inputModalities: MULTIMODAL_INPUT },
+  { id: "openrouter/google/gemini-2.5-flash-image", label: "Gemini 2.5 Flash Image", providerId: "openrouter", inputModalities: ["text", "image"], outputModalities: IMAGE_OUTPUT },
+  { id: "openrouter/google/gemini-3-pro-image-preview", label: "Gemini 3 Pro Image", providerId: "openrouter", inputModalities: ["text", "image"], outputModalities: IMAGE_OUTPUT },
+  { id: "openrouter/google/nano-banana-pro", label: "Nano Banana Pro", providerId: "openrouter", inputModalities: ["text", "image"], outputModalities: IMAGE_OUTPUT },
+  { id: "openrouter/openai/gpt-5-image", label: "GPT-5 Image", providerId: "openrouter", inputModalities: ["text", "image", "file"], outputModalities: IMAGE_OUTPUT },
+];
+
+export function getModelLabel(modelId: string, models: ModelItem[] = MODEL_OPTIONS) {
+  return models.find((model) => model.id === modelId)?.label ?? modelId;
+}
+
+/** Model ids are stored as `<provider>/<model>`; the provider's API only wants the model part. */
+export function getRequestModelId(model: ModelItem) {
+  const prefix = `${model.providerId}/`;
+  return model.id.startsWith(prefix) ? model.id.slice(prefix.length) : model.id;
+}
+
+export function canGenerateImages(model: ModelItem) {
+  return model.outputModalities ? model.outputModalities.includes("image") : !!model.supportsImages;
+}
+
+/**
+ * Whether a model takes a given kind of attachment. Text files are inlined as
+ * text, so only images and binary files need the matching input modality.
+ * Models without modality data are assumed to accept anything.
+ */
+export function acceptsAttachment(model: ModelItem, kind: AttachmentKind) {
+  if (!model.inputModalities || kind === "text") return true;
+  if (kind === "image") return model.inputModalities.includes("image");
+  return model.inputModalities.includes("file");
+}
+
+/**
+ * Merges parameter sets from least to most specific (model defaults, then the
+ * user's per-model settings, then the conversation). Unset fields fall through.
+ */
+export function resolveGenerationParams(...layers: Array<GenerationParams | undefined>) {
+  const resolved: GenerationParams = {};
+  layers.forEach((layer) => {
+    Object.entries(layer ?? {}).forEach(([key, value]) => {
+      if (value !== undefined) Object.assign(resolved, { [key]: value });
+    });
+  });
+  return resolved;
+}
@@ -0,0 +1,232 @@
+import { fetchProvider } from "./providerErrors";
+import { PROVIDERS } from "./providers";
+import type { DocumentChunk, EmbeddingProviderId, ProjectDocument, SourceCitation } from "./types";
+
+// Around 300 tokens of prose: small enough to inject several, large enough to keep a thought together
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Reciprocal rank fusion constant from the original paper; damps the head of each list
+const RRF_K = 60;
+const EMBEDDING_BATCH_SIZE = 64;
+
+/** Citations for document chunks use this scheme so the sources panel can tell them from web links. */
+export const DOCUMENT_SOURCE_PREFIX = "document://";
+
+export const EMBEDDING_MODELS: Record<EmbeddingProviderId, string> = {
+  openai: "text-embedding-3-small",
+  google: "text-embedding-004",
+  mistral: "mistral-embed",
+};
+
+const STOPWORDS = new Set(
+  "a an and are as at be but by for from has have he her his i if in into is it its me my not of on or our she so than that the their them then there these they this to was we were what when which who will with you your".split(
+    " "
+  )
+);
+
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((word) => !STOPWORDS.has(word));
+}
+
+// Paragraphs first, then sentences, then hard cuts, so no piece exceeds CHUNK_CHARS
+function splitUnits(text: string) {
+  return text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => {
+      if (paragraph.length <= CHUNK_CHARS) return [paragraph];
+      return (paragraph.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g) ?? [paragraph]).flatMap((sentence) => {
+        const pieces: string[] = [];
+        for (let start = 0; start < sentence.length; start += CHUNK_CHARS) pieces.push(sentence.slice(start, start + CHUNK_CHARS));
+        return pieces.map((piece) => piece.trim()).filter(Boolean);
+      });
+    });
+}
+
+/**
+ * Packs paragraphs into chunks of about CHUNK_CHARS. A short trailing piece is
+ * repeated at the start of the next chunk so a sentence on the boundary is
+ * searchable from both sides.
+ */
+export function chunkText(text: string): DocumentChunk[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+  splitUnits(text).forEach((unit) => {
+    if (length + unit.length > CHUNK_CHARS && current.length) {
+      chunks.push(current.join("\n\n"));
+      const tail = current[current.length - 1];
+      current = tail.length <= CHUNK_OVERLAP_CHARS ? [tail] : [];
+      length = current.reduce((total, item) => total + item.length, 0);
+    }
+    current.push(unit);
+    length += unit.length;
+  });
+  if (current.length) chunks.push(current.join("\n\n"));
+  return chunks.map((chunk, index) => withKeywordIndex({ index, text: chunk }));
+}
+
+// Own properties only, so a word like "constructor" does not read Object.prototype
+function termFrequency(terms: Record<string, number>, term: string) {
+  return Object.prototype.hasOwnProperty.call(terms, term) ? terms[term] : 0;
+}
+
+/**
+ * Adds the term counts BM25 needs, so they are computed once when a document
+ * is indexed and stored with it rather than on every search.
+ */
+export function withKeywordIndex(chunk: DocumentChunk): DocumentChunk {
+  if (chunk.terms && chunk.termCount !== undefined) return chunk;
+  const words = tokenize(chunk.text);
+  const terms: Record<string, number> = {};
+  words.forEach((word) => {
+    terms[word] = termFrequency(terms, word) + 1;
+  });
+  return { ...chunk, terms, termCount: words.length };
+}
+
+type IndexedChunk = { document: ProjectDocument; chunk: DocumentChunk; terms: Record<string, number>; length: number };
+
+export type RetrievedChunk = { document: ProjectDocument; chunk: DocumentChunk; score: number };
+
+function rankBm25(indexed: IndexedChunk[], query: string) {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || indexed.length === 0) return [];
+  const averageLength = indexed.reduce((total, item) => total + item.length, 0) / indexed.length;
+  const documentFrequency = new Map<string, number>();
+  indexed.forEach((item) =>
+    queryTerms.forEach((term) => {
+      if (termFrequency(item.terms, term)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    })
+  );
+  return indexed
+    .map((item) => {
+      let score = 0;
+      queryTerms.forEach((term) => {
+        const frequency = termFrequency(item.terms, term);
+        if (!frequency) return;
+        const df = documentFrequency.get(term) ?? 0;
+        const idf = Math.log(1 + (indexed.length - df + 0.5) / (df + 0.5));
+        score +=
+          (idf * frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * item.length) / (averageLength || 1)));
+      });
+      return { item, score };
+    })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Finds the chunks most relevant to `query` across a project's documents.
+ * Ranking is BM25; when a query embedding is given, chunks embedded with the
+ * same model are also ranked by cosine similarity and the two lists are fused.
+ */
+export function retrieveChunks(
+  documents: ProjectDocument[],
+  query: string,
+  options: { limit: number; queryEmbedding?: { model: string; vector: number[] } }
+): RetrievedChunk[] {
+  const indexed: IndexedChunk[] = documents.flatMap((document) =>
+    document.chunks.map((chunk) => {
+      const { terms = {}, termCount = 0 } = withKeywordIndex(chunk);
+      return { document, chunk, terms, length: termCount };
+    })
+  );
+  const fused = new Map<IndexedChunk, number>();
+  const addRanking = (ranked: IndexedChunk[]) =>
+    ranked.forEach((item, rank) => fused.set(item, (fused.get(item) ?? 0) + 1 / (RRF_K + rank + 1)));
+
+  addRanking(rankBm25(indexed, query).map((entry) => entry.item));
+  const embedding = options.queryEmbedding;
+  if (embedding) {
+    addRanking(
+      indexed
+        .filter((item) => item.document.embeddingModel === embedding.model && item.chunk.embedding)
+        .map((item) => ({ item, score: cosineSimilarity(embedding.vector, item.chunk.embedding!) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, options.limit * 4)
+        .map((entry) => entry.item)
+    );
+  }
+  return Array.from(fused.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, options.limit)
+    .map(([item, score]) => ({ document: item.document, chunk: item.chunk, score }));
+}
+
+export function chunkCitation(hit: RetrievedChunk): SourceCitation {
+  return {
+    url: `${DOCUMENT_SOURCE_PREFIX}${hit.document.id}#${hit.chunk.index}`,
+    title: `${hit.document.name} (part ${hit.chunk.index + 1})`,
+    content: hit.chunk.text,
+  };
+}
+
+/** The system prompt block that hands retrieved excerpts to the model, numbered to match the citations. */
+export function formatRetrievedContext(hits: RetrievedChunk[]) {
+  return [
+    "Excerpts from the project's documents that may help with the latest message. Cite them by number, like [1], when you use them, and say so if they do not contain the answer.",
+    ...hits.map((hit, index) => `[${index + 1}] ${hit.document.name}, part ${hit.chunk.index + 1}:\n${hit.chunk.text}`),
+  ].join("\n\n");
+}
+
+async function embedBatch(providerId: EmbeddingProviderId, apiKey: string, texts: string[]): Promise<number[][]> {
+  const model = EMBEDDING_MODELS[providerId];
+  const provider = PROVIDERS[providerId];
+  if (providerId === "google") {
+    const response = await fetchProvider(
+      `${provider.baseUrl}/models/${model}:batchEmbedContents?key=${apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requests: texts.map((text) => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
+        }),
+      },
+      provider.name
+    );
+    const json = (await response.json()) as { embeddings?: Array<{ values: number[] }> };
+    return (json.embeddings ?? []).map((item) => item.values);
+  }
+  const response = await fetchProvider(
+    `${provider.baseUrl}/embeddings`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({ model, input: texts }),
+    },
+    provider.name
+  );
+  const json = (await response.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+  return (json.data ?? []).sort((a, b) => a.index - b.index).map((item) => item.embedding);
+}
+
+/** Embeds texts with the provider's embedding model, in batches the APIs accept. */
+export async function embedTexts(providerId: EmbeddingProviderId, apiKey: string, texts: string[]) {
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    vectors.push(...(await embedBatch(providerId, apiKey, texts.slice(start, start + EMBEDDING_BATCH_SIZE))));
+  }
+  if (vectors.length !== texts.length) throw new Error(`${PROVIDERS[providerId].name} returned too few embeddings.`);
+  return vectors;
+}
+
+export function embeddingModelId(providerId: EmbeddingProviderId) {
+  return `${providerId}/${EMBEDDING_MODELS[providerId]}`;
+}
@@ -0,0 +1,69 @@
+import type { ShortcutAction } from "./types";
+
+/** Opens the command palette; fixed so it can always be found. */
+export const COMMAND_PALETTE_SHORTCUT = "Mod+K";
+
+// Browsers keep some bindings for themselves (new tab, close, Ctrl+Shift+C/I/J for
+// the developer tools), so pages never see them. These avoid all of those in
+// Chrome, Edge, Firefox and Safari; Firefox's own uses of them can be overridden.
+export const DEFAULT_SHORTCUTS: Record<ShortcutAction, string> = {
+  stopStreaming: "Mod+.",
+  regenerate: "Mod+Shift+Enter",
+  copyLastAnswer: "Mod+Shift+Y",
+};
+
+export const SHORTCUT_LABELS: Record<ShortcutAction, string> = {
+  stopStreaming: "Stop streaming",
+  regenerate: "Regenerate last answer",
+  copyLastAnswer: "Copy last answer",
+};
+
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Alt", "Shift", "AltGraph", "CapsLock"]);
+
+export const IS_MAC = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function resolveShortcuts(overrides: Partial<Record<ShortcutAction, string>> | undefined) {
+  return { ...DEFAULT_SHORTCUTS, ...overrides };
+}
+
+/**
+ * Describes a key press as "Mod+Alt+Shift+K". Mod is Cmd on macOS and Ctrl
+ * elsewhere, so one saved shortcut works on both. Returns null while only
+ * modifiers are held.
+ */
+export function shortcutFromEvent(event: Pick<KeyboardEvent, "key" | "metaKey" | "ctrlKey" | "altKey" | "shiftKey">) {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const parts: string[] = [];
+  if (IS_MAC ? event.metaKey : event.ctrlKey) parts.push("Mod");
+  if (IS_MAC && event.ctrlKey) parts.push("Ctrl");
+  if (event.altKey) parts.push("Alt");
+  if (event.shiftKey) parts.push("Shift");
+  parts.push(event.key === " " ? "Space" : event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  return parts.join("+");
+}
+
+/**
+ * Why a recorded shortcut cannot be used, or null when it can. Shortcuts fire
+ * while typing, so they need a modifier other than Shift unless they are
+ * function keys, which type nothing.
+ */
+export function shortcutProblem(shortcut: string) {
+  if (shortcut === COMMAND_PALETTE_SHORTCUT) return `${formatShortcut(shortcut)} opens the command palette.`;
+  const parts = shortcut.split("+");
+  const hasModifier = parts.some((part) => part === "Mod" || part === "Ctrl" || part === "Alt");
+  if (!hasModifier && !/^F\d{1,2}$/.test(parts[parts.length - 1])) {
+    return "Include Ctrl, Cmd or Alt so the shortcut does not block typing.";
+  }
+  return null;
+}
+
+/** The shortcut written the way the platform shows it, like "⌘⇧Y" or "Ctrl+Shift+Y". */
+export function formatShortcut(shortcut: string) {
+  const parts = shortcut.split("+").map((part, index, all) => {
+    // A trailing empty part means the key itself was "+"
+    if (part === "" && index === all.length - 1) return "+";
+    if (!IS_MAC) return part === "Mod" ? "Ctrl" : part;
+    return { Mod: "⌘", Ctrl: "⌃", Alt: "⌥", Shift: "⇧", Enter: "↩" }[part] ?? part;
+  });
+  return parts.filter(Boolean).join(IS_MAC ? "" : "+");
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { readServerSentEvents, type ServerSentEvent } from "./sse";
+
+function streamOf(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: string[]) {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(streamOf(chunks))) events.push(event);
+  return events;
+}
+
+describe("readServerSentEvents", () => {
+  it("splits events on CRLF line endings", async () => {
+    expect(await collect(["data: one\r\n\r\ndata: two\r\n\r\n"])).toEqual([
+      { event: "message", data: "one", id: undefined },
+      { event: "message", data: "two", id: undefined },
+    ]);
+  });
+
+  it("joins a CR and LF split across chunks into one line ending", async () => {
+    expect(await collect(["data: one\r", "\n\r", "\ndata: two\r\n\r\n"])).toEqual([
+      { event: "message", data: "one", id: undefined },
+      { event: "message", data: "two", id: undefined },
+    ]);
+  });
+
+  it("joins multi-line data with newlines", async () => {
+    expect(await collect(["data: first\ndata: second\ndata:\n\n"])).toEqual([
+      { event: "message", data: "first\nsecond\n", id: undefined },
+    ]);
+  });
+
+  it("reads event names and resets them after each event", async () => {
+    expect(await collect(["event: endpoint\ndata: /messages\n\ndata: plain\n\n"])).toEqual([
+      { event: "endpoint", data: "/messages", id: undefined },
+      { event: "message", data: "plain", id: undefined },
+    ]);
+  });
+
+  it("skips comment keep-alives", async () => {
+    expect(await collect([": ping\n\n", "data: {\"a\":1}\n", ": still here\n\n"])).toEqual([
+      { event: "message", data: '{"a":1}', id: undefined },
+    ]);
+  });
+
+  it("emits the last event when the stream ends without a blank line", async () => {
+    expect(await collect(["data: one\n\n", "event: done\ndata: last"])).toEqual([
+      { event: "message", data: "one", id: undefined },
+      { event: "done", data: "last", id: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+export type ServerSentEvent = {
+  /** The `event:` field, or "message" when the server sent none. */
+  event: string;
+  /** Every `data:` line of the event, joined with newlines. */
+  data: string;
+  id?: string;
+};
+
+/**
+ * Reads a response body as a stream of server-sent events following the
+ * WHATWG event-stream rules: LF, CRLF or CR line endings, multi-line data,
+ * named events and `:` comment lines (used as keep-alives), which are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let id: string | undefined;
+
+  function* processLine(line: string): Generator<ServerSentEvent> {
+    if (line === "") {
+      if (data.length > 0) yield { event: event || "message", data: data.join("\n"), id };
+      event = "";
+      data = [];
+      return;
+    }
+    if (line.startsWith(":")) return;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+    if (field === "data") data.push(value);
+    else if (field === "event") event = value;
+    else if (field === "id") id = value;
+  }
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      let text = buffer + (done ? decoder.decode() : decoder.decode(value, { stream: true }));
+      // A trailing CR may be the first half of a CRLF split across chunks
+      const heldCr = !done && text.endsWith("\r");
+      if (heldCr) text = text.slice(0, -1);
+      const lines = text.split(/\r\n|\r|\n/);
+      buffer = (lines.pop() ?? "") + (heldCr ? "\r" : "");
+      for (const line of lines) yield* processLine(line);
+      if (done) {
+        // Servers that close without a trailing blank line still meant to send the last event
+        if (buffer) yield* processLine(buffer);
+        yield* processLine("");
+        return;
+      }
+    }
+  } finally {
+    // Closes the connection when the caller stops reading early, e.g. at [DONE]
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/** Parses an event's data as JSON, naming the provider when the payload is malformed. */
+export function parseEventJson(event: ServerSentEvent, providerName: string) {
+  try {
+    return JSON.parse(event.data);
+  } catch {
+    throw new Error(`${providerName} sent a stream event that is not valid JSON: ${event.data.slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,246 @@
+import type { Conversation } from "./types";
+
+/** What a model sees of a tool: its name, what it does and a JSON Schema for its arguments. */
+export type ToolSpec = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type ToolContext = {
+  conversations: Conversation[];
+};
+
+/** A tool the browser can run itself. Executors return text for the model to read. */
+export type ToolDefinition = ToolSpec & {
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<string> | string;
+  /** Calls wait for the user to allow them, for tools that reach outside the app. */
+  requiresApproval?: boolean;
+};
+
+/** A call the model asked for while streaming. */
+export type RequestedToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+export type ToolCallOutcome = RequestedToolCall & {
+  result: string;
+  isError: boolean;
+};
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  exp: Math.exp,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluates an arithmetic expression without `eval`: numbers, + - * / % ^,
+ * parentheses, the constants pi and e, and the functions in MATH_FUNCTIONS.
+ */
+export function evaluateExpression(expression: string) {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position];
+    if (expected !== undefined && token !== expected) {
+      throw new Error(token === undefined ? `Expected "${expected}" at the end.` : `Expected "${expected}" but found "${token}".`);
+    }
+    position += 1;
+    return token;
+  };
+
+  function parseSum(): number {
+    let value = parseProduct();
+    while (peek() === "+" || peek() === "-") {
+      value = take() === "+" ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  }
+
+  function parseProduct(): number {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === "*" ? value * right : operator === "/" ? value / right : value % right;
+    }
+    return value;
+  }
+
+  function parseUnary(): number {
+    if (peek() === "-") {
+      take();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      take();
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  // Right-associative, and binds tighter than unary minus on its left: -2^2 = -4
+  function parsePower(): number {
+    const base = parseAtom();
+    if (peek() === "^" || peek() === "**") {
+      take();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  }
+
+  function parseAtom(): number {
+    const token = take();
+    if (token === undefined) throw new Error("The expression ended unexpectedly.");
+    if (token === "(") {
+      const value = parseSum();
+      take(")");
+      return value;
+    }
+    if (/^(\d|\.\d)/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    if (name in MATH_FUNCTIONS) {
+      take("(");
+      const args = [parseSum()];
+      while (peek() === ",") {
+        take();
+        args.push(parseSum());
+      }
+      take(")");
+      return MATH_FUNCTIONS[name](...args);
+    }
+    throw new Error(`Unknown symbol "${token}".`);
+  }
+
+  const value = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}".`);
+  return value;
+}
+
+const calculatorTool: ToolDefinition = {
+  name: "calculator",
+  description:
+    "Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, pi, e and the functions " +
+    `${Object.keys(MATH_FUNCTIONS).join(", ")} (log is base 10, ln is natural, trigonometry uses radians).`,
+  parameters: {
+    type: "object",
+    properties: {
+      expression: { type: "string", description: "The expression to evaluate, e.g. (3.5 * 12) ^ 2 / sqrt(7)" },
+    },
+    required: ["expression"],
+  },
+  execute: (args) => {
+    if (typeof args.expression !== "string") throw new Error("expression must be a string.");
+    const value = evaluateExpression(args.expression);
+    if (!Number.isFinite(value)) throw new Error("The result is not a finite number.");
+    return String(value);
+  },
+};
+
+const currentDateTool: ToolDefinition = {
+  name: "current_date",
+  description: "Returns the current date and time, in the user's time zone unless another IANA time zone is given.",
+  parameters: {
+    type: "object",
+    properties: {
+      timeZone: { type: "string", description: "Optional IANA time zone such as Europe/Berlin" },
+    },
+  },
+  execute: (args) => {
+    const now = new Date();
+    const timeZone =
+      typeof args.timeZone === "string" && args.timeZone ? args.timeZone : Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const local = now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" });
+    return JSON.stringify({ iso: now.toISOString(), local, timeZone });
+  },
+};
+
+const SEARCH_RESULT_LIMIT = 8;
+const SNIPPET_RADIUS = 120;
+
+const searchConversationsTool: ToolDefinition = {
+  name: "search_conversations",
+  description:
+    "Searches the user's earlier conversations in this app and returns matching excerpts with the conversation title and date.",
+  parameters: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Words to look for; every word must appear in a message" },
+    },
+    required: ["query"],
+  },
+  execute: (args, context) => {
+    if (typeof args.query !== "string" || !args.query.trim()) throw new Error("query must be a non-empty string.");
+    const words = args.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches: Array<{ conversation: string; date: string; role: string; excerpt: string }> = [];
+    for (const conversation of context.conversations) {
+      for (const message of conversation.messages) {
+        const text = message.content.toLowerCase();
+        if (!words.every((word) => text.includes(word))) continue;
+        const index = text.indexOf(words[0]);
+        const start = Math.max(0, index - SNIPPET_RADIUS);
+        const end = Math.min(message.content.length, index + words[0].length + SNIPPET_RADIUS);
+        matches.push({
+          conversation: conversation.title,
+          date: new Date(message.createdAt).toISOString().slice(0, 10),
+          role: message.role,
+          excerpt: `${start > 0 ? "..." : ""}${message.content.slice(start, end)}${end < message.content.length ? "..." : ""}`,
+        });
+        if (matches.length >= SEARCH_RESULT_LIMIT) return JSON.stringify(matches);
+      }
+    }
+    return matches.length ? JSON.stringify(matches) : "No matching messages.";
+  },
+};
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [calculatorTool, currentDateTool, searchConversationsTool];
+
+/** Runs one call against the registry. Failures become an error result the model can read and react to. */
+export async function runToolCall(
+  tools: ToolDefinition[],
+  call: RequestedToolCall,
+  context: ToolContext
+): Promise<ToolCallOutcome> {
+  const tool = tools.find((item) => item.name === call.name);
+  if (!tool) return { ...call, result: `Unknown tool "${call.name}".`, isError: true };
+  try {
+    return { ...call, result: await tool.execute(call.arguments, context), isError: false };
+  } catch (error) {
+    return { ...call, result: error instanceof Error ? error.message : String(error), isError: true };
+  }
+}
+
+/** Tool arguments stream in as JSON text; a model that sends nothing means "no arguments". */
+export function parseToolArguments(text: string): Record<string, unknown> {
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    throw new Error(`The model sent tool arguments that are not valid JSON: ${text.slice(0, 200)}`);
+  }
+}
@@ -0,0 +1,217 @@
+import type { GenerationParams, ModelItem, ProviderId } from "./providers";
+
+export type Attachment = {
+  name: string;
+  type: string;
+  dataUrl: string;
+};
+
+export type SourceCitation = {
+  url: string;
+  title?: string;
+  content?: string;
+};
+
+export type MessageFeedback = {
+  rating: "up" | "down";
+  note?: string;
+  ratedAt: number;
+};
+
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  /** USD, when the provider reports the charge itself (OpenRouter does). */
+  cost?: number;
+};
+
+export type MessageErrorKind =
+  | "auth"
+  | "rate_limit"
+  | "context_length"
+  | "network"
+  | "server"
+  | "invalid_request"
+  | "unknown";
+
+export type MessageError = {
+  kind: MessageErrorKind;
+  message: string;
+  status?: number;
+  /** From the provider's Retry-After header. */
+  retryAfterMs?: number;
+};
+
+/** A tool call made while writing a reply, shown inline at the point it happened. */
+export type ToolCallRecord = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** Length of `content` when the call was made. */
+  offset: number;
+  status: "pending" | "running" | "done" | "error" | "denied";
+  result?: string;
+};
+
+/** How much of the model's context window a request filled, estimated before sending. */
+export type ContextUsage = {
+  estimatedTokens: number;
+  contextLength: number;
+  /** Earlier messages left out to make room. */
+  droppedMessages: number;
+  /** Whether a summary of earlier turns stood in for them. */
+  summarized?: boolean;
+};
+
+export type MessageVersion = {
+  content: string;
+  createdAt: number;
+  reasoning?: string;
+  images?: string[];
+  sources?: SourceCitation[];
+  feedback?: MessageFeedback;
+  usage?: TokenUsage;
+  error?: MessageError;
+  toolCalls?: ToolCallRecord[];
+  context?: ContextUsage;
+};
+
+export type Message = {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  createdAt: number;
+  /** Reasoning or thinking text streamed alongside the answer, kept out of `content`. */
+  reasoning?: string;
+  modelId?: string;
+  providerId?: ProviderId;
+  isStreaming?: boolean;
+  images?: string[];
+  attachments?: Attachment[];
+  sources?: SourceCitation[];
+  feedback?: MessageFeedback;
+  usage?: TokenUsage;
+  /** Why the reply failed. Kept apart from `content`, and errored replies are left out of context. */
+  error?: MessageError;
+  toolCalls?: ToolCallRecord[];
+  context?: ContextUsage;
+  versions?: MessageVersion[];
+  activeVersion?: number;
+  parentId?: string | null;
+  selectedResponseId?: string;
+};
+
+/** Older turns folded into one message once the conversation outgrew the context window. */
+export type ContextSummary = {
+  content: string;
+  /**
+   * The user message opening the last turn the summary covers. That turn's
+   * replies are covered too, whichever model wrote them; later turns are sent in full.
+   */
+  throughMessageId: string;
+  modelId?: string;
+  createdAt: number;
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  messages: Message[];
+  updatedAt: number;
+  projectId?: string | null;
+  activeBranches?: Record<string, string>;
+  /** Overrides the per-model parameters for every reply in this conversation. */
+  params?: GenerationParams;
+  contextSummary?: ContextSummary;
+};
+
+/**
+ * What happens when a conversation no longer fits: drop the oldest turns, send
+ * only the last few turns, or summarize what falls out of the window.
+ */
+export type ContextStrategy = "truncate" | "sliding_window" | "summarize";
+
+export type McpServerConfig = {
+  id: string;
+  name: string;
+  url: string;
+  /** "http" is Streamable HTTP; "sse" is the older HTTP+SSE transport. */
+  transport: "http" | "sse";
+  headers?: Record<string, string>;
+  enabled: boolean;
+};
+
+export type Settings = {
+  keys: Record<ProviderId, string>;
+  systemPrompt: string;
+  colorMode: "dark" | "light";
+  theme: "basic" | "matrix" | "shadcn";
+  enabledModels: string[];
+  customModels?: ModelItem[];
+  /** Per-model parameter overrides, keyed by model id. */
+  modelParams?: Record<string, GenerationParams>;
+  mcpServers?: McpServerConfig[];
+  contextStrategy?: ContextStrategy;
+  /** Turns kept by the sliding window strategy. */
+  contextWindowTurns?: number;
+  /** Adds semantic search to project documents; keyword (BM25) search is always on. */
+  embeddingProvider?: EmbeddingProviderId;
+  promptTemplates?: PromptTemplate[];
+  /** OpenRouter catalog data for the built-in models, keyed by model id; it replaces their bundled defaults. */
+  modelMetadata?: Record<string, CatalogMetadata>;
+  /** When the OpenRouter catalog was last applied to saved models. */
+  catalogRefreshedAt?: number;
+  /** Key combinations such as "Mod+Shift+C"; missing actions use the defaults. */
+  shortcuts?: Partial<Record<ShortcutAction, string>>;
+};
+
+export type CatalogMetadata = Pick<ModelItem, "contextLength" | "pricing" | "inputModalities" | "outputModalities">;
+
+export type ShortcutAction = "stopStreaming" | "regenerate" | "copyLastAnswer";
+
+/** A saved prompt; `{{name}}` placeholders are filled in when it is inserted. */
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  content: string;
+  /** Limits the template to one project's conversations; global when missing. */
+  projectId?: string;
+  createdAt: number;
+};
+
+export type DocumentChunk = {
+  index: number;
+  text: string;
+  /** Keyword index: how often each search term occurs. Missing on documents added before it was stored. */
+  terms?: Record<string, number>;
+  /** Search terms in the chunk, counting repeats. */
+  termCount?: number;
+  embedding?: number[];
+};
+
+/** A text document indexed for retrieval in one project, kept in IndexedDB. */
+export type ProjectDocument = {
+  id: string;
+  projectId: string;
+  name: string;
+  /** Characters of text, before chunking. */
+  size: number;
+  addedAt: number;
+  chunks: DocumentChunk[];
+  /** `<provider>/<model>` that produced the chunk embeddings, if any. */
+  embeddingModel?: string;
+};
+
+export type EmbeddingProviderId = "openai" | "google" | "mistral";
+
+export type Project = {
+  id: string;
+  name: string;
+  /** Added after the global system prompt for the project's conversations. */
+  systemPrompt?: string;
+  /** One id picks the default model; several open conversations in compare mode. */
+  modelIds?: string[];
+  params?: GenerationParams;
+  /** Reference files sent with every request in the project. */
+  files?: Attachment[];
+};
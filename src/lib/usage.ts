@@ -0,0 +1,146 @@
+import { getRequestModelId, type ModelItem, type ModelPricing } from "./providers";
+import type { Conversation, Message, MessageVersion, Project, TokenUsage } from "./types";
+
+// USD per million tokens for direct-provider models, matched by prefix so dated
+// snapshots (claude-sonnet-4-5-20250929, gpt-4o-2024-08-06) use their family's price.
+// OpenRouter models carry their own pricing from the catalog.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-opus-4-5": { prompt: 5, completion: 25 },
+  "claude-opus-4-1": { prompt: 15, completion: 75 },
+  "claude-opus-4": { prompt: 15, completion: 75 },
+  "claude-sonnet-4": { prompt: 3, completion: 15 },
+  "claude-haiku-4-5": { prompt: 1, completion: 5 },
+  "claude-3-5-haiku": { prompt: 0.8, completion: 4 },
+  "gpt-5-nano": { prompt: 0.05, completion: 0.4 },
+  "gpt-5-mini": { prompt: 0.25, completion: 2 },
+  "gpt-5": { prompt: 1.25, completion: 10 },
+  "gpt-4.1-nano": { prompt: 0.1, completion: 0.4 },
+  "gpt-4.1-mini": { prompt: 0.4, completion: 1.6 },
+  "gpt-4.1": { prompt: 2, completion: 8 },
+  "gpt-4o-mini": { prompt: 0.15, completion: 0.6 },
+  "gpt-4o": { prompt: 2.5, completion: 10 },
+  "o4-mini": { prompt: 1.1, completion: 4.4 },
+  "o3-mini": { prompt: 1.1, completion: 4.4 },
+  o3: { prompt: 2, completion: 8 },
+  "gemini-2.5-pro": { prompt: 1.25, completion: 10 },
+  "gemini-2.5-flash-lite": { prompt: 0.1, completion: 0.4 },
+  "gemini-2.5-flash": { prompt: 0.3, completion: 2.5 },
+  "gemini-2.0-flash": { prompt: 0.1, completion: 0.4 },
+  "mistral-large": { prompt: 2, completion: 6 },
+  "mistral-small": { prompt: 0.1, completion: 0.3 },
+  "deepseek-chat": { prompt: 0.28, completion: 0.42 },
+  "deepseek-reasoner": { prompt: 0.28, completion: 0.42 },
+};
+
+const PRICING_PREFIXES = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length);
+
+export function getModelPricing(model: ModelItem | undefined) {
+  if (!model) return undefined;
+  if (model.pricing) return model.pricing;
+  const name = getRequestModelId(model).split("/").pop() ?? "";
+  const prefix = PRICING_PREFIXES.find((key) => name.startsWith(key));
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
+
+/** Cost in USD, preferring what the provider reported. Undefined when the model has no known price. */
+export function getUsageCost(usage: TokenUsage, model: ModelItem | undefined) {
+  if (usage.cost !== undefined) return usage.cost;
+  const pricing = getModelPricing(model);
+  if (!pricing) return undefined;
+  return (usage.promptTokens * pricing.prompt + usage.completionTokens * pricing.completion) / 1_000_000;
+}
+
+/** Sums the usage of the requests behind one answer (tool calls take several). */
+export function addTokenUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    cost: total.cost !== undefined && usage.cost !== undefined ? total.cost + usage.cost : undefined,
+  };
+}
+
+export type UsageTotals = {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  /** Responses with token counts but no known price, left out of `cost`. */
+  unpriced: number;
+};
+
+export type UsageRow = UsageTotals & { id: string; label: string };
+
+export type UsageReport = {
+  total: UsageTotals;
+  byModel: UsageRow[];
+  byConversation: UsageRow[];
+  byProject: UsageRow[];
+};
+
+function emptyTotals(): UsageTotals {
+  return { promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function addUsage(totals: UsageTotals, usage: TokenUsage, cost: number | undefined) {
+  totals.promptTokens += usage.promptTokens;
+  totals.completionTokens += usage.completionTokens;
+  if (cost === undefined) totals.unpriced += 1;
+  else totals.cost += cost;
+}
+
+// Replaced versions were paid for too, so every stored version counts.
+function messageUsages(message: Message): TokenUsage[] {
+  const versions: Array<Pick<MessageVersion, "usage">> = message.versions?.length
+    ? message.versions.map((version, index) => (index === (message.activeVersion ?? 0) ? message : version))
+    : [message];
+  return versions.flatMap((version) => (version.usage ? [version.usage] : []));
+}
+
+/** Totals token usage and spend across conversations, grouped by model, conversation and project. */
+export function computeUsageReport(conversations: Conversation[], projects: Project[], models: ModelItem[]): UsageReport {
+  const total = emptyTotals();
+  const byModel = new Map<string, UsageRow>();
+  const byConversation = new Map<string, UsageRow>();
+  const byProject = new Map<string, UsageRow>();
+  const row = (rows: Map<string, UsageRow>, id: string, label: string) => {
+    const existing = rows.get(id);
+    if (existing) return existing;
+    const created = { id, label, ...emptyTotals() };
+    rows.set(id, created);
+    return created;
+  };
+
+  conversations.forEach((conversation) => {
+    const projectId = conversation.projectId ?? "none";
+    const projectLabel = projects.find((project) => project.id === conversation.projectId)?.name ?? "No project";
+    conversation.messages.forEach((message) => {
+      if (message.role !== "assistant") return;
+      const model = models.find((item) => item.id === message.modelId);
+      messageUsages(message).forEach((usage) => {
+        const cost = getUsageCost(usage, model);
+        addUsage(total, usage, cost);
+        addUsage(row(byModel, message.modelId ?? "unknown", model?.label ?? message.modelId ?? "Unknown model"), usage, cost);
+        addUsage(row(byConversation, conversation.id, conversation.title), usage, cost);
+        addUsage(row(byProject, projectId, projectLabel), usage, cost);
+      });
+    });
+  });
+
+  const sorted = (rows: Map<string, UsageRow>) =>
+    Array.from(rows.values()).sort(
+      (a, b) => b.cost - a.cost || b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens)
+    );
+  return { total, byModel: sorted(byModel), byConversation: sorted(byConversation), byProject: sorted(byProject) };
+}
+
+export function formatTokens(tokens: number) {
+  if (tokens >= 1_000_000) return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+  if (tokens >= 1_000) return `${Number((tokens / 1_000).toFixed(1))}K`;
+  return String(tokens);
+}
+
+export function formatCost(usd: number) {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,303 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Conversation, Message } from "./types";
+import { uid } from "./utils";
+
+const DB_NAME = "apeiron";
+const DB_VERSION = 1;
+const CONVERSATION_STORE = "conversations";
+const BLOB_STORE = "blobs";
+const BLOB_REF_PREFIX = "idb-blob:";
+const STREAMING_SAVE_INTERVAL_MS = 2000;
+
+type BlobRecord = {
+  id: string;
+  conversationId: string;
+  blob: Blob;
+};
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error("Storage transaction aborted"));
+    transaction.onerror = () => reject(transaction.error ?? new Error("Storage transaction failed"));
+  });
+}
+
+function dataUrlToBlob(dataUrl: string) {
+  const [header, data = ""] = dataUrl.split(",");
+  const type = header.match(/^data:([^;,]*)/)?.[1] || "application/octet-stream";
+  if (!header.includes(";base64")) return new Blob([decodeURIComponent(data)], { type });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Attachments and generated images are the only fields that hold data URLs.
+function mapMessageMedia(message: Message, map: (value: string) => string): Message {
+  return {
+    ...message,
+    attachments: message.attachments?.map((attachment) => ({ ...attachment, dataUrl: map(attachment.dataUrl) })),
+    images: message.images?.map(map),
+    versions: message.versions?.map((version) => ({ ...version, images: version.images?.map(map) })),
+  };
+}
+
+function migrateLegacyConversations(db: IDBDatabase, legacyKey: string) {
+  let legacy: Conversation[] = [];
+  try {
+    const stored = localStorage.getItem(legacyKey);
+    if (stored === null) return Promise.resolve();
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) legacy = parsed;
+  } catch {
+    // Unreadable legacy data is dropped below rather than retried forever
+  }
+  const blobIds = new Map<string, Map<string, string>>();
+  const transaction = db.transaction([CONVERSATION_STORE, BLOB_STORE], "readwrite");
+  legacy.forEach((conversation) => writeConversation(transaction, conversation, blobIds));
+  return transactionDone(transaction).then(() => localStorage.removeItem(legacyKey));
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(legacyKey: string) {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATION_STORE)) {
+          db.createObjectStore(CONVERSATION_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(BLOB_STORE)) {
+          const blobs = db.createObjectStore(BLOB_STORE, { keyPath: "id" });
+          blobs.createIndex("conversationId", "conversationId");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateLegacyConversations(db, legacyKey);
+      return db;
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+// Queues the writes synchronously so transactions for the same conversation
+// commit in the order the state changed. Blobs the conversation no longer
+// references are deleted in the same transaction. Returns the blob map
+// changes, so a failed transaction can undo them.
+function writeConversation(
+  transaction: IDBTransaction,
+  conversation: Conversation,
+  blobIds: Map<string, Map<string, string>>
+) {
+  const conversationBlobs = blobIds.get(conversation.id) ?? new Map<string, string>();
+  blobIds.set(conversation.id, conversationBlobs);
+  const blobStore = transaction.objectStore(BLOB_STORE);
+  const added: string[] = [];
+  const referenced = new Set<string>();
+
+  const toReference = (value: string) => {
+    if (!value.startsWith("data:")) return value;
+    let id = conversationBlobs.get(value);
+    if (!id) {
+      id = uid();
+      conversationBlobs.set(value, id);
+      added.push(value);
+      const record: BlobRecord = { id, conversationId: conversation.id, blob: dataUrlToBlob(value) };
+      blobStore.put(record);
+    }
+    referenced.add(id);
+    return `${BLOB_REF_PREFIX}${id}`;
+  };
+
+  transaction.objectStore(CONVERSATION_STORE).put({
+    ...conversation,
+    messages: conversation.messages.map((message) => mapMessageMedia(message, toReference)),
+  });
+
+  const removed: Array<[string, string]> = [];
+  conversationBlobs.forEach((id, dataUrl) => {
+    if (referenced.has(id)) return;
+    blobStore.delete(id);
+    removed.push([dataUrl, id]);
+  });
+  removed.forEach(([dataUrl]) => conversationBlobs.delete(dataUrl));
+  return { added, removed };
+}
+
+function deleteConversation(transaction: IDBTransaction, conversationId: string) {
+  transaction.objectStore(CONVERSATION_STORE).delete(conversationId);
+  const index = transaction.objectStore(BLOB_STORE).index("conversationId");
+  const request = index.openKeyCursor(IDBKeyRange.only(conversationId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    transaction.objectStore(BLOB_STORE).delete(cursor.primaryKey);
+    cursor.continue();
+  };
+}
+
+async function readConversations(db: IDBDatabase, blobIds: Map<string, Map<string, string>>) {
+  const transaction = db.transaction([CONVERSATION_STORE, BLOB_STORE], "readonly");
+  const [stored, blobs] = await Promise.all([
+    requestResult(transaction.objectStore(CONVERSATION_STORE).getAll() as IDBRequest<Conversation[]>),
+    requestResult(transaction.objectStore(BLOB_STORE).getAll() as IDBRequest<BlobRecord[]>),
+  ]);
+
+  const dataUrls = new Map<string, string>();
+  await Promise.all(
+    blobs.map(async (record) => {
+      const dataUrl = await blobToDataUrl(record.blob);
+      dataUrls.set(record.id, dataUrl);
+      const conversationBlobs = blobIds.get(record.conversationId) ?? new Map<string, string>();
+      conversationBlobs.set(dataUrl, record.id);
+      blobIds.set(record.conversationId, conversationBlobs);
+    })
+  );
+
+  const fromReference = (value: string) =>
+    value.startsWith(BLOB_REF_PREFIX) ? dataUrls.get(value.slice(BLOB_REF_PREFIX.length)) ?? "" : value;
+
+  return stored
+    .map((conversation) => ({
+      ...conversation,
+      messages: conversation.messages.map((message) => mapMessageMedia(message, fromReference)),
+    }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+function describeStorageError(error: unknown) {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return "Browser storage is full, so recent changes were not saved. Delete old conversations or large attachments to free space.";
+  }
+  const detail = error instanceof Error ? error.message : String(error);
+  return `Conversations could not be saved: ${detail}`;
+}
+
+/**
+ * Keeps conversations in IndexedDB, one record per conversation, with
+ * attachment and image data stored as separate blobs. Anything saved under
+ * `legacyKey` in localStorage is moved over on first load.
+ */
+export function useConversationStore(legacyKey: string) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dbRef = useRef<IDBDatabase | null>(null);
+  const savedRef = useRef<Map<string, Conversation>>(new Map());
+  const blobIdsRef = useRef<Map<string, Map<string, string>>>(new Map());
+  const lastWriteRef = useRef<Map<string, number>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    getDatabase(legacyKey)
+      .then(async (db) => {
+        const stored = await readConversations(db, blobIdsRef.current);
+        if (cancelled) return;
+        dbRef.current = db;
+        savedRef.current = new Map(stored.map((conversation) => [conversation.id, conversation]));
+        setConversations((prev) => [
+          ...prev,
+          ...stored.filter((conversation) => !prev.some((existing) => existing.id === conversation.id)),
+        ]);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          `Conversation storage is unavailable, so new changes will not be saved: ${err instanceof Error ? err.message : String(err)}`
+        );
+        // Still show whatever the old localStorage copy holds
+        try {
+          const legacy = JSON.parse(localStorage.getItem(legacyKey) ?? "[]");
+          if (Array.isArray(legacy)) setConversations((prev) => [...prev, ...legacy]);
+        } catch {
+          // Nothing readable to fall back to
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [legacyKey]);
+
+  useEffect(() => {
+    const db = dbRef.current;
+    if (!loaded || !db) return;
+
+    const now = Date.now();
+    const previous = savedRef.current;
+    const next = new Map(conversations.map((conversation) => [conversation.id, conversation]));
+    const removed = Array.from(previous.keys()).filter((id) => !next.has(id));
+    const changed = conversations.filter((conversation) => {
+      if (previous.get(conversation.id) === conversation) return false;
+      // While a reply streams, save at most every few seconds; the update that
+      // ends the stream is always written.
+      const streaming = conversation.messages.some((message) => message.isStreaming);
+      if (streaming && now - (lastWriteRef.current.get(conversation.id) ?? 0) < STREAMING_SAVE_INTERVAL_MS) {
+        const saved = previous.get(conversation.id);
+        if (saved) next.set(conversation.id, saved);
+        else next.delete(conversation.id);
+        return false;
+      }
+      return true;
+    });
+    savedRef.current = next;
+    if (changed.length === 0 && removed.length === 0) return;
+    changed.forEach((conversation) => lastWriteRef.current.set(conversation.id, now));
+    removed.forEach((id) => lastWriteRef.current.delete(id));
+
+    try {
+      const transaction = db.transaction([CONVERSATION_STORE, BLOB_STORE], "readwrite");
+      const blobChanges = changed.map((conversation) => writeConversation(transaction, conversation, blobIdsRef.current));
+      removed.forEach((id) => {
+        deleteConversation(transaction, id);
+        blobIdsRef.current.delete(id);
+      });
+      transactionDone(transaction).catch((err) => {
+        // Forget the failed writes so the next change retries them
+        changed.forEach((conversation, index) => {
+          if (savedRef.current.get(conversation.id) === conversation) savedRef.current.delete(conversation.id);
+          const conversationBlobs = blobIdsRef.current.get(conversation.id);
+          blobChanges[index].added.forEach((dataUrl) => conversationBlobs?.delete(dataUrl));
+          blobChanges[index].removed.forEach(([dataUrl, id]) => conversationBlobs?.set(dataUrl, id));
+        });
+        setError(describeStorageError(err));
+      });
+    } catch (err) {
+      setError(describeStorageError(err));
+    }
+  }, [conversations, loaded]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return [conversations, setConversations, { loaded, error, clearError }] as const;
+}
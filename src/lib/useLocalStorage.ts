@@ -1,4 +1,11 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+
+function describeWriteError(error: unknown) {
+  if (error instanceof DOMException && error.name === "QuotaExceededError") {
+    return "Browser storage is full, so recent settings or project changes were not saved. Remove pinned project files or large custom data to free space.";
+  }
+  return `Settings could not be saved: ${error instanceof Error ? error.message : String(error)}`;
+}
 
 export function useLocalStorage<T>(key: string, initialValue: T) {
   const [value, setValue] = useState<T>(() => {
@@ -10,14 +17,18 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
       return initialValue;
     }
   });
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     try {
       localStorage.setItem(key, JSON.stringify(value));
-    } catch {
-      // Ignore write errors (private mode, quota, etc.)
+      setError(null);
+    } catch (err) {
+      setError(describeWriteError(err));
     }
   }, [key, value]);
 
-  return [value, setValue] as const;
+  const clearError = useCallback(() => setError(null), []);
+
+  return [value, setValue, { error, clearError }] as const;
 }
@@ -0,0 +1,128 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  callMcpTool,
+  connectMcpServer,
+  listMcpPrompts,
+  listMcpResources,
+  listMcpTools,
+  mcpResultToText,
+  mcpToolName,
+  type McpConnection,
+  type McpPrompt,
+  type McpResource,
+  type McpTool,
+} from "./mcp";
+import type { ToolDefinition } from "./tools";
+import type { McpServerConfig } from "./types";
+
+export type McpServerState = {
+  status: "connecting" | "connected" | "error";
+  error?: string;
+  tools: McpTool[];
+  resources: McpResource[];
+  prompts: McpPrompt[];
+};
+
+// Servers without resources or prompts answer "method not found"; that is not a failure
+function optionalList<T>(promise: Promise<T[]>) {
+  return promise.catch(() => [] as T[]);
+}
+
+/**
+ * Keeps a connection open to every enabled MCP server and exposes their
+ * tools in the registry format. Changing a server's settings reconnects it.
+ */
+export function useMcpServers(servers: McpServerConfig[]) {
+  const [states, setStates] = useState<Record<string, McpServerState>>({});
+  const [attempt, setAttempt] = useState(0);
+  const connectionsRef = useRef(new Map<string, { key: string; connection: Promise<McpConnection> }>());
+
+  useEffect(() => {
+    const connections = connectionsRef.current;
+    const wanted = new Map(servers.filter((server) => server.enabled).map((server) => [server.id, server]));
+
+    connections.forEach((entry, id) => {
+      const server = wanted.get(id);
+      if (server && JSON.stringify(server) === entry.key) return;
+      connections.delete(id);
+      entry.connection.then((connection) => connection.close()).catch(() => undefined);
+      setStates((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    });
+
+    wanted.forEach((server, id) => {
+      if (connections.has(id)) return;
+      const key = JSON.stringify(server);
+      const connection = connectMcpServer(server);
+      const entry = { key, connection };
+      connections.set(id, entry);
+      // Identity, not the config key: a closed connection for an identical config must not touch its successor
+      const isCurrent = () => connections.get(id) === entry;
+      setStates((prev) => ({ ...prev, [id]: { status: "connecting", tools: [], resources: [], prompts: [] } }));
+      connection
+        .then(async (open) => {
+          const [tools, resources, prompts] = await Promise.all([
+            listMcpTools(open),
+            optionalList(listMcpResources(open)),
+            optionalList(listMcpPrompts(open)),
+          ]).catch((error) => {
+            // The session is open even though listing failed; end it before reporting the error
+            open.close();
+            throw error;
+          });
+          if (!isCurrent()) return;
+          setStates((prev) => ({ ...prev, [id]: { status: "connected", tools, resources, prompts } }));
+        })
+        .catch((error) => {
+          if (!isCurrent()) return;
+          // Forget the failed connection so "Reconnect" starts a fresh one
+          connections.delete(id);
+          setStates((prev) => ({
+            ...prev,
+            [id]: {
+              status: "error",
+              error: error instanceof Error ? error.message : String(error),
+              tools: [],
+              resources: [],
+              prompts: [],
+            },
+          }));
+        });
+    });
+  }, [servers, attempt]);
+
+  useEffect(() => {
+    const connections = connectionsRef.current;
+    return () => {
+      connections.forEach((entry) => entry.connection.then((connection) => connection.close()).catch(() => undefined));
+      connections.clear();
+    };
+  }, []);
+
+  const tools = useMemo<ToolDefinition[]>(
+    () =>
+      servers.flatMap((server) => {
+        const state = states[server.id];
+        const entry = connectionsRef.current.get(server.id);
+        if (!server.enabled || state?.status !== "connected" || !entry) return [];
+        return state.tools.map((tool) => ({
+          name: mcpToolName(server.name, tool.name),
+          description: `${tool.description ?? tool.title ?? tool.name} (from the ${server.name} MCP server)`,
+          parameters: tool.inputSchema ?? { type: "object", properties: {} },
+          requiresApproval: true,
+          execute: async (args) => {
+            const result = await callMcpTool(await entry.connection, tool.name, args);
+            const text = mcpResultToText(result);
+            if (result.isError) throw new Error(text || "The tool reported an error.");
+            return text;
+          },
+        }));
+      }),
+    [servers, states]
+  );
+
+  return { states, tools, reconnect: () => setAttempt((prev) => prev + 1) };
+}
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from "react";
+import { getAttachmentKind } from "./attachments";
+import { chunkText, embedTexts, embeddingModelId, withKeywordIndex } from "./retrieval";
+import type { EmbeddingProviderId, ProjectDocument } from "./types";
+import { uid } from "./utils";
+
+const DB_NAME = "apeiron-documents";
+const DB_VERSION = 1;
+const DOCUMENT_STORE = "documents";
+
+export type EmbeddingConfig = { providerId: EmbeddingProviderId; apiKey: string };
+
+function requestResult<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(DOCUMENT_STORE, { keyPath: "id" });
+        store.createIndex("projectId", "projectId");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+async function putDocuments(documents: ProjectDocument[]) {
+  const db = await getDatabase();
+  const store = db.transaction(DOCUMENT_STORE, "readwrite").objectStore(DOCUMENT_STORE);
+  await Promise.all(documents.map((document) => requestResult(store.put(document))));
+}
+
+async function deleteDocuments(ids: string[]) {
+  const db = await getDatabase();
+  const store = db.transaction(DOCUMENT_STORE, "readwrite").objectStore(DOCUMENT_STORE);
+  await Promise.all(ids.map((id) => requestResult(store.delete(id))));
+}
+
+// Also fills in the keyword index of documents stored before it was kept with them
+async function withEmbeddings(document: ProjectDocument, embedding: EmbeddingConfig | null) {
+  const chunks = document.chunks.map(withKeywordIndex);
+  if (!embedding) {
+    return {
+      ...document,
+      embeddingModel: undefined,
+      chunks: chunks.map(({ index, text, terms, termCount }) => ({ index, text, terms, termCount })),
+    };
+  }
+  const vectors = await embedTexts(embedding.providerId, embedding.apiKey, chunks.map((chunk) => chunk.text));
+  return {
+    ...document,
+    embeddingModel: embeddingModelId(embedding.providerId),
+    chunks: chunks.map((chunk, index) => ({ ...chunk, embedding: vectors[index] })),
+  };
+}
+
+/**
+ * Keeps the retrieval documents of every project in IndexedDB. Documents are
+ * chunked and keyword-indexed when added and, when an embedding provider is
+ * configured, embedded at the same time so searches only embed the query.
+ */
+export function useProjectDocuments() {
+  const [documents, setDocuments] = useState<ProjectDocument[]>([]);
+  const [indexing, setIndexing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getDatabase()
+      .then((db) =>
+        requestResult(db.transaction(DOCUMENT_STORE, "readonly").objectStore(DOCUMENT_STORE).getAll() as IDBRequest<ProjectDocument[]>)
+      )
+      .then((stored) => {
+        if (!cancelled) setDocuments(stored.sort((a, b) => a.addedAt - b.addedAt));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Project documents could not be loaded: ${err instanceof Error ? err.message : String(err)}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const run = useCallback(async (task: () => Promise<void>) => {
+    setIndexing(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIndexing(false);
+    }
+  }, []);
+
+  const addDocuments = useCallback(
+    (projectId: string, files: File[], embedding: EmbeddingConfig | null) =>
+      run(async () => {
+        const isText = (file: File) => getAttachmentKind({ name: file.name, type: file.type, dataUrl: "" }) === "text";
+        const readable = files.filter(isText);
+        const skipped = files.filter((file) => !isText(file));
+        const added = await Promise.all(
+          readable.map(async (file) => {
+            const text = await file.text();
+            const document: ProjectDocument = {
+              id: uid(),
+              projectId,
+              name: file.name,
+              size: text.length,
+              addedAt: Date.now(),
+              chunks: chunkText(text),
+            };
+            return withEmbeddings(document, embedding);
+          })
+        );
+        if (added.length) {
+          await putDocuments(added);
+          setDocuments((prev) => [...prev, ...added]);
+        }
+        // Thrown after the readable files are saved, so the message only names the ones left out
+        if (skipped.length) {
+          throw new Error(`Only text files can be indexed; ${skipped.map((file) => file.name).join(", ")} skipped.`);
+        }
+      }),
+    [run]
+  );
+
+  /** Re-embeds a project's documents, for example after switching embedding providers. */
+  const reindexProject = useCallback(
+    (projectId: string, embedding: EmbeddingConfig | null) =>
+      run(async () => {
+        const current = documents.filter((document) => document.projectId === projectId);
+        const updated = await Promise.all(current.map((document) => withEmbeddings(document, embedding)));
+        await putDocuments(updated);
+        setDocuments((prev) => prev.map((document) => updated.find((item) => item.id === document.id) ?? document));
+      }),
+    [documents, run]
+  );
+
+  const removeDocuments = useCallback(
+    (ids: string[]) =>
+      run(async () => {
+        await deleteDocuments(ids);
+        setDocuments((prev) => prev.filter((document) => !ids.includes(document.id)));
+      }),
+    [run]
+  );
+
+  return { documents, indexing, error, addDocuments, reindexProject, removeDocuments };
+}
@@ -4,3 +4,44 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function uid() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function downloadFile(filename: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+export function parseCodeMeta(className?: string, meta?: string) {
+  let language = "";
+  let filename = "";
+  if (className?.startsWith("language-")) {
+    const info = className.replace("language-", "");
+    if (info.includes(":")) {
+      const [lang, file] = info.split(":");
+      language = lang || "";
+      filename = file || "";
+    } else {
+      if (info.includes(".")) {
+        filename = info;
+        language = info.split(".").pop() || "";
+      } else {
+        language = info;
+      }
+    }
+  }
+  if (!filename && meta) {
+    const match = meta.match(/file=([^\s]+)/);
+    if (match) filename = match[1];
+  }
+  return { language, filename };
+}